@@ -0,0 +1,55 @@
+// 手势录制回放：npm run replay-hand -- <录制.json>... [--write-expected] [--check]
+// 用与页面相同的分类逻辑逐帧重放，打印意图序列并与同目录的 <录制>.expected.json 比对，不一致时退出码为 1；
+// --check 时缺少 expected 文件也算失败（npm run test:gestures 回放 gestures/ 下提交的录制）
+import fs from 'fs';
+import { parseHandRecording, replayHandRecording } from './src/handTracking';
+
+const args = process.argv.slice(2);
+const writeExpected = args.includes('--write-expected');
+const requireExpected = args.includes('--check');
+const files = args.filter(arg => !arg.startsWith('--'));
+
+if (files.length === 0) {
+  console.error('Usage: npm run replay-hand -- <recording.json>... [--write-expected] [--check]');
+  process.exit(2);
+}
+
+// 返回是否通过
+const replayFile = (file: string) => {
+  const recording = parseHandRecording(JSON.parse(fs.readFileSync(file, 'utf8')));
+  const timeline = replayHandRecording(recording);
+  const expectedFile = file.replace(/\.json$/i, '') + '.expected.json';
+
+  const describe = ({ t, intent }: (typeof timeline)[number]) =>
+    `${String(t).padStart(7)}ms  ${intent.type}${'speed' in intent ? ` ${intent.speed.toFixed(4)}` : ''}`;
+
+  console.log(`[HandReplay] ${file}: ${recording.frames.length} frame(s), ${timeline.length} intent(s)`);
+  timeline.forEach(entry => console.log(describe(entry)));
+
+  if (writeExpected) {
+    fs.writeFileSync(expectedFile, JSON.stringify(timeline, null, 2) + '\n');
+    console.log(`[HandReplay] Wrote ${expectedFile}`);
+    return true;
+  }
+  if (!fs.existsSync(expectedFile)) {
+    if (requireExpected) console.error(`[HandReplay] Missing ${expectedFile}`);
+    return !requireExpected;
+  }
+  const expected: typeof timeline = JSON.parse(fs.readFileSync(expectedFile, 'utf8'));
+  const mismatch = Array.from({ length: Math.max(expected.length, timeline.length) }, (_, i) => i)
+    .find(i => JSON.stringify(expected[i]) !== JSON.stringify(timeline[i]));
+  if (mismatch !== undefined) {
+    console.error(`[HandReplay] Mismatch at intent #${mismatch}`);
+    console.error(`  expected: ${expected[mismatch] ? describe(expected[mismatch]) : '(none)'}`);
+    console.error(`  actual:   ${timeline[mismatch] ? describe(timeline[mismatch]) : '(none)'}`);
+    return false;
+  }
+  console.log(`[HandReplay] Matches ${expectedFile}`);
+  return true;
+};
+
+const failed = files.filter(file => !replayFile(file));
+if (failed.length > 0) {
+  console.error(`[HandReplay] ${failed.length} of ${files.length} recording(s) failed`);
+  process.exit(1);
+}
@@ -0,0 +1,17 @@
+// 独立照片服务器：npm run build 之后运行 npm run serve
+// 环境变量：PORT（默认 8080）、HOST（默认 0.0.0.0）、BASE（默认 /christmas-tree-with-photos/）、MAX_FILE_SIZE_MB
+import { createPhotoServer } from './vite-plugin-photo-server';
+
+const port = Number(process.env.PORT) || 8080;
+const host = process.env.HOST || '0.0.0.0';
+const base = process.env.BASE || '/christmas-tree-with-photos/';
+const maxFileSizeMb = Number(process.env.MAX_FILE_SIZE_MB);
+
+const server = createPhotoServer({
+  base,
+  maxFileSize: maxFileSizeMb > 0 ? maxFileSizeMb * 1024 * 1024 : undefined,
+});
+
+server.listen(port, host, () => {
+  console.log(`[PhotoServer] Serving dist/ with photo API at http://${host}:${port}${base}`);
+});
@@ -1,4 +1,4 @@
-import { useState, useMemo, useRef, useEffect, Suspense, useCallback } from 'react';
+import { useState, useMemo, useRef, useEffect, useLayoutEffect, Suspense, useCallback, Fragment } from 'react';
 import { Canvas, useFrame, extend } from '@react-three/fiber';
 import {
   OrbitControls,
@@ -6,37 +6,135 @@ import {
   shaderMaterial,
   Float,
   Stars,
-  Sparkles,
-  useTexture
+  Sparkles
 } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
 import * as THREE from 'three';
 import { MathUtils } from 'three';
 import * as random from 'maath/random';
 import { GestureRecognizer, FilesetResolver, DrawingUtils } from "@mediapipe/tasks-vision";
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { atlasCell, atlasLayout, atlasRect, drawAtlasPages, type AtlasLayout, type AtlasRect, type AtlasRequest, type AtlasResponse } from './photoAtlas';
+import { createHandClassifier, parseHandRecording, fromRecordedFrame, toRecordedFrame, toCalibrationSample, deriveHandThresholds, normalizeHandThresholds, DEFAULT_HAND_THRESHOLDS, HAND_RECORDING_FORMAT, HAND_RECORDING_VERSION, type CalibrationPose, type CalibrationSample, type HandFrame, type HandRecording, type HandThresholds } from './handTracking';
 
-// --- 动态生成照片列表 (top.jpg + 1.jpg 到 N.jpg) ---
-const TOTAL_NUMBERED_PHOTOS = 34;
-// 修改：将 top.jpg 加入到数组开头
+// --- 照片列表来自照片接口，静态部署读取构建时生成的 photos.json ---
 const asset = (p: string) => `${import.meta.env.BASE_URL}${p}`;
-const bodyPhotoPaths = [
-  asset('backup_photos/top.jpg'),
-  ...Array.from({ length: TOTAL_NUMBERED_PHOTOS }, (_, i) => asset(`backup_photos/${i + 1}.jpg`))
-];
+const PHOTO_MANIFEST_FILE = 'photos.json';
+// 连清单也拿不到时（例如直接打开未经构建的页面）只显示顶部照片
+const fallbackPhotoPaths = [asset('backup_photos/top.jpg')];
+
+// 照片说明：标题、日期 (YYYY-MM-DD) 与一段留言，显示在大图下方
+type PhotoMeta = { caption: string; date: string; message: string }
+// server = 照片服务器（含备份目录）；local = 浏览器 IndexedDB；bundled = 静态部署内置的默认照片
+type PhotoOrigin = 'server' | 'local' | 'bundled'
+
+// video = 短视频（MP4 / WebM）；animated = 动图（GIF / 多帧 WebP），贴图为首帧
+type PhotoKind = 'video' | 'animated'
+
+// 单张照片：原图 + 服务端生成的贴图尺寸 / 大图尺寸（本地与默认照片三者相同）
+// id 用于关联说明：服务器照片为相对路径，本地照片为内容哈希
+type PhotoItem = { id: string; origin: PhotoOrigin; src: string; ornament: string; lightbox: string; kind?: PhotoKind; meta?: PhotoMeta }
+type ServerPhotoEntry = { src: string; ornament?: string; lightbox?: string; kind?: PhotoKind; meta?: PhotoMeta; mtime?: number }
+// 与 vite-plugin-photo-server 的 PhotoManifest 对应；albums 的键为相册名（默认相册为空字符串）
+type PhotoManifest = { version: number; generatedAt: string; defaults: ServerPhotoEntry[]; albums: Record<string, ServerPhotoEntry[]> }
+
+// 与照片服务器 /api/upload 返回的逐个文件结果对应
+type UploadResult =
+  | { name: string; status: 'accepted'; photo: ServerPhotoEntry }
+  | { name: string; status: 'duplicate'; duplicateOf: string }
+  | { name: string; status: 'rejected'; reason: string; message: string }
+
+const EMPTY_PHOTO_META: PhotoMeta = { caption: '', date: '', message: '' }
+
+const hasPhotoMeta = (meta?: PhotoMeta) => Boolean(meta && (meta.caption || meta.date || meta.message))
+
+// 系统默认照片（备份目录 / 随构建发布）不可删除，也不参与导出；按 id 判断，用户自己的 laptop.jpg 之类不受影响
+const DEFAULT_PHOTO_DIR = 'backup_photos/'
+const isDefaultPhoto = (photo: PhotoItem) => photo.origin === 'bundled' || photo.id.startsWith(DEFAULT_PHOTO_DIR)
+
+// FNV-1a，足够区分本地照片（旧版按 data URL 计算，新版按文件内容计算）
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
+
+const hashBytes = (bytes: Uint8Array) => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i]
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
+
+const toPhotoItem = (url: string, origin: PhotoOrigin, id = url): PhotoItem => ({ id, origin, src: url, ornament: url, lightbox: url })
+// 本地照片无法判断 GIF 是否多帧，一律按动图处理（单帧时解码结果与静态图相同）
+const kindFromMime = (mime: string): PhotoKind | undefined =>
+  mime.startsWith('video/') ? 'video' : mime === 'image/gif' ? 'animated' : undefined
+const fallbackPhotoItems = fallbackPhotoPaths.map(url => toPhotoItem(url, 'bundled', url.slice(import.meta.env.BASE_URL.length)))
+
+// 缓存参数取原文件修改时间：重新拉取列表时地址不变，文件被替换后才失效
+const fromServerEntry = (entry: string | ServerPhotoEntry, base: string, origin: PhotoOrigin = 'server'): PhotoItem => {
+  if (typeof entry === 'string') return toPhotoItem(`${base}${entry}`, origin, entry)
+  const url = (p: string) => (entry.mtime ? `${base}${p}?v=${entry.mtime}` : `${base}${p}`)
+  return {
+    id: entry.src,
+    origin,
+    src: url(entry.src),
+    ornament: url(entry.ornament || entry.src),
+    lightbox: url(entry.lightbox || entry.src),
+    kind: entry.kind,
+    meta: entry.meta
+  }
+}
 
 const LOCAL_PHOTOS_DB = 'christmas-tree'
 const LOCAL_PHOTOS_STORE = 'kv'
+// 旧版 data URL 数组，读取时迁移到 LOCAL_PHOTO_RECORDS_STORE
 const LOCAL_PHOTOS_KEY = 'localPhotosV1'
+const LOCAL_PHOTO_RECORDS_STORE = 'photos'
 const LOCAL_HIDE_DEFAULTS_KEY = 'hideDefaultsV1'
+const LOCAL_PHOTO_META_KEY = 'photoMetaV1'
+const LOCAL_PHOTO_ORDER_KEY = 'photoOrderV1'
+const GESTURE_PROFILES_STORE = 'gestureProfiles'
+
+// 相册：空字符串为默认相册；具名相册在服务器上是 public/photos 的子目录
+const DEFAULT_ALBUM = ''
+const ALBUM_NAME_PATTERN = /^[\p{L}\p{N}_-]{1,40}$/u
+type AlbumSummary = { name: string; count: number }
+
+const apiUrl = (endpoint: string, album: string, params: Record<string, string> = {}) => {
+  const query = new URLSearchParams(params)
+  if (album) query.set('album', album)
+  const qs = query.toString()
+  return `${import.meta.env.BASE_URL}api/${endpoint}${qs ? `?${qs}` : ''}`
+}
+
+// 本地（IndexedDB）数据按相册隔离，默认相册沿用原有键名
+const albumScopedKey = (key: string, album: string) => (album ? `${key}:${album}` : key)
 
 const openLocalPhotosDb = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
-    const req = indexedDB.open(LOCAL_PHOTOS_DB, 1)
+    const req = indexedDB.open(LOCAL_PHOTOS_DB, 3)
     req.onupgradeneeded = () => {
       const db = req.result
       if (!db.objectStoreNames.contains(LOCAL_PHOTOS_STORE)) {
         db.createObjectStore(LOCAL_PHOTOS_STORE, { keyPath: 'key' })
       }
+      // v2：每张照片一条记录，原文件以 Blob 保存；同一张照片可以同时属于多个相册
+      if (!db.objectStoreNames.contains(LOCAL_PHOTO_RECORDS_STORE)) {
+        const store = db.createObjectStore(LOCAL_PHOTO_RECORDS_STORE, { keyPath: ['album', 'id'] })
+        store.createIndex('album', 'album')
+      }
+      // v3：每个人一份手势校准档案
+      if (!db.objectStoreNames.contains(GESTURE_PROFILES_STORE)) {
+        db.createObjectStore(GESTURE_PROFILES_STORE, { keyPath: 'id' })
+      }
     }
     req.onsuccess = () => resolve(req.result)
     req.onerror = () => reject(req.error)
@@ -79,41 +177,235 @@ const localKvDelete = async (key: string): Promise<void> => {
   })
 }
 
-const readFileAsDataUrl = (file: File): Promise<string> => {
+type LocalPhotoRecord = { album: string; id: string; blob: Blob; addedAt: number }
+
+const getLocalPhotoRecords = async (album: string): Promise<LocalPhotoRecord[]> => {
+  const db = await openLocalPhotosDb()
   return new Promise((resolve, reject) => {
-    const reader = new FileReader()
-    reader.onload = () => resolve(String(reader.result || ''))
-    reader.onerror = () => reject(reader.error)
-    reader.readAsDataURL(file)
+    const tx = db.transaction(LOCAL_PHOTO_RECORDS_STORE, 'readonly')
+    const req = tx.objectStore(LOCAL_PHOTO_RECORDS_STORE).index('album').getAll(album)
+    req.onsuccess = () => resolve(req.result as LocalPhotoRecord[])
+    req.onerror = () => reject(req.error)
+  })
+}
+
+// 同一事务写入，超出配额时整批回滚
+const putLocalPhotoRecords = async (records: LocalPhotoRecord[]): Promise<void> => {
+  const db = await openLocalPhotosDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(LOCAL_PHOTO_RECORDS_STORE, 'readwrite')
+    const store = tx.objectStore(LOCAL_PHOTO_RECORDS_STORE)
+    records.forEach(record => store.put(record))
+    tx.oncomplete = () => resolve()
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+const deleteLocalPhotoRecords = async (album: string, ids: string[]): Promise<void> => {
+  const db = await openLocalPhotosDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(LOCAL_PHOTO_RECORDS_STORE, 'readwrite')
+    const store = tx.objectStore(LOCAL_PHOTO_RECORDS_STORE)
+    ids.forEach(id => store.delete([album, id]))
+    tx.oncomplete = () => resolve()
+    tx.onabort = () => reject(tx.error)
   })
 }
 
-const getLocalPhotos = async (): Promise<string[]> => {
+// 同一条记录复用同一个 object URL：地址不变，贴图缓存才能命中
+const localObjectUrls = new Map<string, string>()
+const localObjectUrlKey = (album: string, id: string) => `${album}/${id}`
+
+const revokeLocalObjectUrl = (album: string, id: string) => {
+  const key = localObjectUrlKey(album, id)
+  const url = localObjectUrls.get(key)
+  if (!url) return
+  URL.revokeObjectURL(url)
+  localObjectUrls.delete(key)
+}
+
+// 本地照片无法判断 GIF 是否多帧，一律按动图处理（单帧时解码结果与静态图相同）
+const localPhotoItem = (record: LocalPhotoRecord): PhotoItem => {
+  const key = localObjectUrlKey(record.album, record.id)
+  let url = localObjectUrls.get(key)
+  if (!url) {
+    url = URL.createObjectURL(record.blob)
+    localObjectUrls.set(key, url)
+  }
+  const kind = kindFromMime(record.blob.type)
+  return { ...toPhotoItem(url, 'local', record.id), ...(kind ? { kind } : {}) }
+}
+
+// 旧版把相册的全部照片以 data URL 数组存在同一个键下；首次读取时拆成逐张记录。
+// id 仍按 data URL 计算，已有的说明与顺序继续有效
+const migrateLegacyLocalPhotos = async (album: string): Promise<void> => {
+  const key = albumScopedKey(LOCAL_PHOTOS_KEY, album)
+  const legacy = await localKvGet<string[]>(key)
+  if (!Array.isArray(legacy)) return
+  const now = Date.now()
+  const records = await Promise.all(legacy.filter(Boolean).map(async (dataUrl, i) => ({
+    album,
+    id: `local:${hashString(dataUrl)}`,
+    blob: await (await fetch(dataUrl)).blob(),
+    // 旧数组新照片在前
+    addedAt: now - i
+  })))
+  await putLocalPhotoRecords(records)
+  await localKvDelete(key)
+}
+
+// 新照片在前
+const getLocalPhotos = async (album: string): Promise<LocalPhotoRecord[]> => {
+  try {
+    await migrateLegacyLocalPhotos(album).catch(err => console.error('Migrating local photos failed:', err))
+    const records = await getLocalPhotoRecords(album)
+    return records.sort((a, b) => b.addedAt - a.addedAt)
+  } catch {
+    return []
+  }
+}
+
+const isQuotaError = (err: unknown) => err instanceof DOMException && err.name === 'QuotaExceededError'
+
+type LocalStorageUsage = { usage: number; quota: number }
+
+const getLocalStorageUsage = async (): Promise<LocalStorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return quota > 0 ? { usage, quota } : null
+}
+
+// 返回与 files 一一对应的照片（内容相同的照片沿用已有记录）；空间不足时抛出 QuotaExceededError，不写入任何照片
+const addLocalPhotos = async (files: File[], album: string): Promise<PhotoItem[]> => {
+  const existing = new Map((await getLocalPhotos(album)).map(r => [r.id, r]))
+  const now = Date.now()
+  const fresh: LocalPhotoRecord[] = []
+  const items: PhotoItem[] = []
+  for (const [i, file] of files.entries()) {
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const id = `local:${hashBytes(bytes)}-${bytes.length.toString(16)}`
+    let record = existing.get(id)
+    if (!record) {
+      record = { album, id, blob: file, addedAt: now + files.length - i }
+      existing.set(id, record)
+      fresh.push(record)
+    }
+    items.push(localPhotoItem(record))
+  }
+
+  const incoming = fresh.reduce((sum, r) => sum + r.blob.size, 0)
+  const usage = await getLocalStorageUsage().catch(() => null)
+  if (usage && usage.usage + incoming > usage.quota) {
+    throw new DOMException('浏览器存储空间不足', 'QuotaExceededError')
+  }
+  if (fresh.length > 0) await putLocalPhotoRecords(fresh)
+  return items
+}
+
+const getLocalPhotoMeta = async (album: string): Promise<Record<string, PhotoMeta>> => {
+  try {
+    const value = await localKvGet<Record<string, PhotoMeta>>(albumScopedKey(LOCAL_PHOTO_META_KEY, album))
+    return value && typeof value === 'object' ? value : {}
+  } catch {
+    return {}
+  }
+}
+
+const setLocalPhotoMeta = async (id: string, meta: PhotoMeta | null, album: string): Promise<void> => {
+  const existing = await getLocalPhotoMeta(album)
+  if (meta && hasPhotoMeta(meta)) {
+    existing[id] = meta
+  } else {
+    delete existing[id]
+  }
+  await localKvSet(albumScopedKey(LOCAL_PHOTO_META_KEY, album), existing)
+}
+
+const deleteLocalPhoto = async (id: string, album: string): Promise<void> => {
+  await deleteLocalPhotoRecords(album, [id])
+  revokeLocalObjectUrl(album, id)
+  await setLocalPhotoMeta(id, null, album)
+}
+
+const resetLocalPhotos = async (album: string): Promise<void> => {
+  const records = await getLocalPhotos(album)
+  await deleteLocalPhotoRecords(album, records.map(r => r.id))
+  records.forEach(r => revokeLocalObjectUrl(album, r.id))
+  await localKvDelete(albumScopedKey(LOCAL_PHOTO_META_KEY, album))
+  await localKvDelete(albumScopedKey(LOCAL_PHOTO_ORDER_KEY, album))
+}
+
+const getLocalPhotoOrder = async (album: string): Promise<string[]> => {
   try {
-    const value = await localKvGet<string[]>(LOCAL_PHOTOS_KEY)
+    const value = await localKvGet<string[]>(albumScopedKey(LOCAL_PHOTO_ORDER_KEY, album))
     return Array.isArray(value) ? value : []
   } catch {
     return []
   }
 }
 
-const addLocalPhotos = async (files: File[]): Promise<string[]> => {
-  const existing = await getLocalPhotos()
-  const dataUrls = (await Promise.all(files.map(readFileAsDataUrl))).filter(Boolean)
-  const next = [...dataUrls, ...existing]
-  await localKvSet(LOCAL_PHOTOS_KEY, next)
-  return next
+// 按手动顺序排列：出现在清单中的照片在前，其余保持原有相对顺序排在后面
+const applyPhotoOrder = (items: PhotoItem[], order: string[]): PhotoItem[] => {
+  if (order.length === 0) return items
+  const rank = new Map(order.map((id, i) => [id, i]))
+  const ordered = items.filter(p => rank.has(p.id)).sort((a, b) => rank.get(a.id)! - rank.get(b.id)!)
+  return [...ordered, ...items.filter(p => !rank.has(p.id))]
 }
 
-const deleteLocalPhoto = async (photoUrl: string): Promise<string[]> => {
-  const existing = await getLocalPhotos()
-  const next = existing.filter(u => u !== photoUrl)
-  await localKvSet(LOCAL_PHOTOS_KEY, next)
-  return next
+// 完整顺序存入 IndexedDB；服务器照片的相对顺序同时写入服务器清单
+const savePhotoOrder = async (photos: PhotoItem[], album: string): Promise<void> => {
+  await localKvSet(albumScopedKey(LOCAL_PHOTO_ORDER_KEY, album), photos.map(p => p.id))
+  const serverOrder = photos.filter(p => p.origin === 'server').map(p => p.id)
+  if (serverOrder.length === 0) return
+  const res = await fetch(apiUrl('photos/order', album), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order: serverOrder })
+  })
+  if (!res.ok) throw new Error('Save order failed')
 }
 
-const resetLocalPhotos = async (): Promise<void> => {
-  await localKvDelete(LOCAL_PHOTOS_KEY)
+// 服务器上当前的照片顺序（接口已按 photo-order.json 排好）；相册为空时接口回退返回的备份照片不算
+const getServerPhotoOrder = async (album: string): Promise<string[]> => {
+  const res = await fetch(apiUrl('photos', album))
+  if (!res.ok) throw new Error('Load photos failed')
+  const files: Array<string | ServerPhotoEntry> = await res.json()
+  return files.map(f => (typeof f === 'string' ? f : f.src)).filter(id => !id.startsWith(DEFAULT_PHOTO_DIR))
+}
+
+// 新照片接在已有顺序之后，不打乱相册里手动排好的顺序；added 为本次新增（不含重复）的照片
+const appendPhotoOrder = async (added: PhotoItem[], album: string): Promise<void> => {
+  const localOrder = await getLocalPhotoOrder(album)
+  const localAdded = added.map(p => p.id).filter(id => !localOrder.includes(id))
+  if (localOrder.length > 0 && localAdded.length > 0) {
+    await localKvSet(albumScopedKey(LOCAL_PHOTO_ORDER_KEY, album), [...localOrder, ...localAdded])
+  }
+  const serverAdded = added.filter(p => p.origin === 'server').map(p => p.id)
+  if (serverAdded.length === 0) return
+  const existing = (await getServerPhotoOrder(album)).filter(id => !serverAdded.includes(id))
+  const res = await fetch(apiUrl('photos/order', album), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order: [...existing, ...serverAdded] })
+  })
+  if (!res.ok) throw new Error('Save order failed')
+}
+
+// 服务器照片写入旁路文件，其余（本地 / 静态内置）写入 IndexedDB
+const savePhotoMeta = async (photo: PhotoItem, meta: PhotoMeta, album: string): Promise<void> => {
+  if (photo.origin === 'server') {
+    const res = await fetch(apiUrl('photos/meta', album), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ src: photo.id, ...meta })
+    })
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      throw new Error(data.error || 'Save failed')
+    }
+    return
+  }
+  await setLocalPhotoMeta(photo.id, meta, album)
 }
 
 const getHideDefaultsFlag = async (): Promise<boolean> => {
@@ -129,51 +421,394 @@ const setHideDefaultsFlag = async (hide: boolean): Promise<void> => {
   await localKvSet(LOCAL_HIDE_DEFAULTS_KEY, hide)
 }
 
+// --- 整棵树导出 / 导入：zip 包内含 manifest.json 与 photos/ 目录 ---
+const TREE_BUNDLE_FORMAT = 'christmas-tree-bundle'
+const TREE_BUNDLE_VERSION = 1
+
+type TreeBundleManifest = {
+  format: typeof TREE_BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  title: string
+  hideDefaults: boolean
+  // 按当前顺序排列
+  photos: Array<{ file: string; meta?: PhotoMeta }>
+}
+
+const PHOTO_MIME_BY_EXT: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.webm': 'video/webm'
+}
+
+const extOf = (name: string) => (/\.[a-z0-9]+$/i.exec(name)?.[0] || '').toLowerCase()
+const extFromMime = (mime: string) => Object.keys(PHOTO_MIME_BY_EXT).find(ext => PHOTO_MIME_BY_EXT[ext] === mime) || '.jpg'
+
+const exportTreeBundle = async (photos: PhotoItem[], hideDefaults: boolean): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {}
+  const entries: TreeBundleManifest['photos'] = []
+  const userPhotos = photos.filter(p => !isDefaultPhoto(p))
+
+  for (const [i, photo] of userPhotos.entries()) {
+    // 导出原图（data URL 同样可以 fetch）
+    const res = await fetch(photo.src)
+    if (!res.ok) throw new Error(`读取照片失败：${photo.id}`)
+    const blob = await res.blob()
+    const originalName = photo.origin === 'server' ? photo.id.split('/').pop() || '' : ''
+    const name = originalName && PHOTO_MIME_BY_EXT[extOf(originalName)] ? originalName : `photo${extFromMime(blob.type)}`
+    const file = `photos/${String(i + 1).padStart(3, '0')}-${name}`
+    files[file] = new Uint8Array(await blob.arrayBuffer())
+    entries.push(hasPhotoMeta(photo.meta) ? { file, meta: photo.meta } : { file })
+  }
+
+  const manifest: TreeBundleManifest = {
+    format: TREE_BUNDLE_FORMAT,
+    version: TREE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: localStorage.getItem('tree_title') || 'Merry Christmas',
+    hideDefaults,
+    photos: entries
+  }
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2))
+  // 照片本身已是压缩格式，只打包不再压缩
+  return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' })
+}
+
+const readTreeBundle = async (bundle: File) => {
+  let archive: Record<string, Uint8Array>
+  try {
+    archive = unzipSync(new Uint8Array(await bundle.arrayBuffer()))
+  } catch {
+    throw new Error('无法解压，文件可能已损坏')
+  }
+  if (!archive['manifest.json']) throw new Error('不是圣诞树导出文件（缺少 manifest.json）')
+  const manifest = JSON.parse(strFromU8(archive['manifest.json'])) as TreeBundleManifest
+  if (manifest.format !== TREE_BUNDLE_FORMAT) throw new Error('不是圣诞树导出文件')
+  if (manifest.version > TREE_BUNDLE_VERSION) throw new Error('导出文件来自更新的版本，请先升级')
+
+  const photos = (Array.isArray(manifest.photos) ? manifest.photos : [])
+    .filter(p => archive[p.file] && PHOTO_MIME_BY_EXT[extOf(p.file)])
+    .map(p => ({
+      file: new File([archive[p.file]], p.file.split('/').pop() || 'photo.jpg', { type: PHOTO_MIME_BY_EXT[extOf(p.file)] }),
+      meta: p.meta
+    }))
+  return { manifest, photos }
+}
+
+// 有照片服务器时通过接口恢复，否则写入当前浏览器的 IndexedDB；返回恢复的照片数量与去向
+const importTreeBundle = async (bundle: File, album: string) => {
+  const { manifest, photos } = await readTreeBundle(bundle)
+  if (typeof manifest.title === 'string' && manifest.title) {
+    localStorage.setItem('tree_title', manifest.title)
+  }
+
+  let serverResults: UploadResult[] | null = null
+  if (photos.length > 0) {
+    const formData = new FormData()
+    photos.forEach(p => formData.append('photos', p.file))
+    try {
+      const res = await fetch(apiUrl('upload', album), { method: 'POST', body: formData })
+      if (res.ok && res.headers.get('content-type')?.includes('application/json')) {
+        const data = await res.json()
+        serverResults = Array.isArray(data.results) ? data.results : null
+      }
+    } catch {
+      serverResults = null
+    }
+  }
+
+  if (serverResults) {
+    // 已存在的相同照片沿用导出包中的说明，但保持原来的位置；新照片按导出包中的顺序排在最后
+    const restored: PhotoItem[] = []
+    const accepted: PhotoItem[] = []
+    for (const [i, result] of serverResults.entries()) {
+      const id = result.status === 'accepted' ? result.photo.src : result.status === 'duplicate' ? result.duplicateOf : null
+      if (!id) continue
+      const item = toPhotoItem(id, 'server', id)
+      restored.push(item)
+      if (result.status === 'accepted') accepted.push(item)
+      const meta = photos[i]?.meta
+      if (meta && hasPhotoMeta(meta)) await savePhotoMeta(item, meta, album)
+    }
+    if (accepted.length > 0) await appendPhotoOrder(accepted, album)
+    return { manifest, count: restored.length, target: 'server' as const }
+  }
+
+  const restored = await addLocalPhotos(photos.map(p => p.file), album)
+  for (const [i, item] of restored.entries()) {
+    const meta = photos[i]?.meta
+    if (meta && hasPhotoMeta(meta)) await setLocalPhotoMeta(item.id, meta, album)
+  }
+  if (restored.length > 0) await appendPhotoOrder(restored, album)
+  return { manifest, count: restored.length, target: 'local' as const }
+}
+
 // --- 视觉配置 ---
 const CONFIG = {
-  colors: {
-    emerald: '#004225', // 纯正祖母绿
-    gold: '#FFD700',
-    silver: '#ECEFF1',
-    red: '#D32F2F',
-    green: '#2E7D32',
-    white: '#FFFFFF',   // 纯白色
-    warmLight: '#FFD54F',
-    lights: ['#FF0000', '#00FF00', '#0000FF', '#FFFF00'], // 彩灯
-    // 拍立得边框颜色池 (复古柔和色系)
-    borders: ['#FFFAF0', '#F0E68C', '#E6E6FA', '#FFB6C1', '#98FB98', '#87CEFA', '#FFDAB9'],
-    // 圣诞元素颜色
-    giftColors: ['#D32F2F', '#FFD700', '#1976D2', '#2E7D32'],
-    candyColors: ['#FF0000', '#FFFFFF']
+  tree: { height: 32, radius: 13 }, // 增大树的尺寸 (从22x9增加到32x13)
+};
+
+// --- Quality Tiers ---
+// 粒子数量、分辨率与后期效果按档位切换；自动模式下由 QualityGovernor 根据实测帧率升降档
+type QualityTierId = 'low' | 'medium' | 'high';
+type QualityTier = {
+  id: QualityTierId;
+  label: string;
+  dpr: number;        // 最大像素比
+  counts: { foliage: number; ornaments: number; elements: number; lights: number };
+  stars: number;
+  sparkles: number;
+  bloom: 'off' | 'basic' | 'mipmap';
+  spotLight: boolean; // 聚合时的聚光灯
+};
+
+// 由低到高排列，升降档按下标走
+const QUALITY_TIERS: QualityTier[] = [
+  {
+    id: 'low', label: '低', dpr: 1,
+    counts: { foliage: 5000, ornaments: 120, elements: 600, lights: 1000 },
+    stars: 1500, sparkles: 300, bloom: 'off', spotLight: false,
   },
-  counts: {
-    foliage: 12000,   // 优化粒子数量以提升性能
-    ornaments: 200,   // 优化照片数量以提升性能
-    elements: 500,    // 增加圣诞元素数量填充底部
-    lights: 800       // 增加彩灯数量填充底部
+  {
+    id: 'medium', label: '中', dpr: 1.5,
+    counts: { foliage: 8000, ornaments: 160, elements: 1000, lights: 1600 },
+    stars: 3000, sparkles: 600, bloom: 'basic', spotLight: true,
   },
-  tree: { height: 32, radius: 13 }, // 增大树的尺寸 (从22x9增加到32x13)
-  photos: {
-    // top 属性不再需要，因为已经移入 body
-    body: bodyPhotoPaths
+  {
+    id: 'high', label: '高', dpr: 2,
+    counts: { foliage: 12000, ornaments: 200, elements: 1500, lights: 2400 },
+    stars: 5000, sparkles: 1000, bloom: 'mipmap', spotLight: true,
+  },
+];
+
+type QualityMode = 'auto' | QualityTierId;
+const QUALITY_STORAGE_KEY = 'tree_quality';
+
+// 每个采样窗口的长度；连续多个窗口低于 / 高于阈值才换档，避免来回抖动
+const QUALITY_GOVERNOR = {
+  windowSeconds: 2,
+  downFps: 45,
+  upFps: 57,
+  downWindows: 2,
+  upWindows: 5,
+  // 降档后这段时间内不再升回刚才撑不住的档位
+  upHoldSeconds: 30,
+};
+
+const loadQualityMode = (): QualityMode => {
+  const saved = localStorage.getItem(QUALITY_STORAGE_KEY);
+  return QUALITY_TIERS.some(tier => tier.id === saved) ? (saved as QualityTierId) : 'auto';
+};
+
+// --- Themes ---
+// 主题是纯 JSON 数据：内置主题写在这里，自定义主题从 .json 文件导入，格式相同
+type ThemeColors = {
+  background: string;
+  emerald: string;    // 针叶粒子
+  gold: string;       // 星星、聚光灯、高亮
+  silver: string;     // 漂浮闪光
+  red: string;        // 拐杖糖
+  white: string;      // 拐杖糖、照片自发光
+  warmLight: string;
+  ambient: string;    // 环境光，整体色调
+  fillLight: string;  // 自下方补光
+  lights: string[];   // 彩灯
+  borders: string[];  // 拍立得边框颜色池
+  giftColors: string[];
+};
+
+// 界面配色，通过 CSS 变量作用到 LINEAR_STYLE
+type ThemeUi = {
+  accent: string;
+  panel: string;
+  surface: string;
+  border: string;
+  hover: string;
+  text: string;
+  textMuted: string;
+};
+
+type Theme = { id: string; name: string; colors: ThemeColors; ui: ThemeUi };
+
+const THEME_CSS_VARS: Record<keyof ThemeUi, string> = {
+  accent: '--ui-accent',
+  panel: '--ui-panel',
+  surface: '--ui-surface',
+  border: '--ui-border',
+  hover: '--ui-hover',
+  text: '--ui-text',
+  textMuted: '--ui-text-muted',
+};
+
+const CLASSIC_UI: ThemeUi = {
+  accent: '#FFD700',
+  panel: 'rgba(20, 20, 20, 0.6)',
+  surface: '#161616',
+  border: 'rgba(255, 255, 255, 0.2)',
+  hover: 'rgba(255, 255, 255, 0.1)',
+  text: '#fff',
+  textMuted: 'rgba(255, 255, 255, 0.6)',
+};
+
+const BUILTIN_THEMES: Theme[] = [
+  {
+    id: 'classic',
+    name: '经典',
+    colors: {
+      background: '#000300',
+      emerald: '#004225', // 纯正祖母绿
+      gold: '#FFD700',
+      silver: '#ECEFF1',
+      red: '#D32F2F',
+      white: '#FFFFFF',
+      warmLight: '#FFD54F',
+      ambient: '#003311',
+      fillLight: '#FFFFFF',
+      lights: ['#FF0000', '#00FF00', '#0000FF', '#FFFF00'],
+      // 复古柔和色系
+      borders: ['#FFFAF0', '#F0E68C', '#E6E6FA', '#FFB6C1', '#98FB98', '#87CEFA', '#FFDAB9'],
+      giftColors: ['#D32F2F', '#FFD700', '#1976D2', '#2E7D32'],
+    },
+    ui: CLASSIC_UI,
+  },
+  {
+    id: 'snow',
+    name: '银装',
+    colors: {
+      background: '#02060C',
+      emerald: '#5A7A94',
+      gold: '#E3F2FD',
+      silver: '#FFFFFF',
+      red: '#90CAF9',
+      white: '#FFFFFF',
+      warmLight: '#B3E5FC',
+      ambient: '#0D2233',
+      fillLight: '#E3F2FD',
+      lights: ['#FFFFFF', '#B3E5FC', '#E1F5FE', '#81D4FA'],
+      borders: ['#FFFFFF', '#ECEFF1', '#E3F2FD', '#F5F5F5'],
+      giftColors: ['#B0BEC5', '#E3F2FD', '#90CAF9', '#CFD8DC'],
+    },
+    ui: { ...CLASSIC_UI, accent: '#B3E5FC', panel: 'rgba(16, 24, 32, 0.6)', surface: '#111820', border: 'rgba(179, 229, 252, 0.25)' },
+  },
+  {
+    id: 'neon',
+    name: '霓虹',
+    colors: {
+      background: '#05000A',
+      emerald: '#00695C',
+      gold: '#FF4FD8',
+      silver: '#7DF9FF',
+      red: '#FF1744',
+      white: '#E0F7FA',
+      warmLight: '#B388FF',
+      ambient: '#1A0033',
+      fillLight: '#E0F7FA',
+      lights: ['#FF00FF', '#00FFFF', '#76FF03', '#FFEA00'],
+      borders: ['#FF80AB', '#82B1FF', '#B9F6CA', '#FFFF8D', '#EA80FC'],
+      giftColors: ['#FF00FF', '#00E5FF', '#76FF03', '#651FFF'],
+    },
+    ui: { ...CLASSIC_UI, accent: '#FF4FD8', panel: 'rgba(20, 8, 32, 0.6)', surface: '#140A1E', border: 'rgba(255, 79, 216, 0.3)', hover: 'rgba(255, 79, 216, 0.12)' },
+  },
+  {
+    id: 'rose-gold',
+    name: '玫瑰金',
+    colors: {
+      background: '#0A0305',
+      emerald: '#6D2E3A',
+      gold: '#F4C2A1',
+      silver: '#FFE4E1',
+      red: '#C2185B',
+      white: '#FFF5F2',
+      warmLight: '#FFCCBC',
+      ambient: '#331A1F',
+      fillLight: '#FFF5F2',
+      lights: ['#FFB6C1', '#F4C2A1', '#FFE4E1', '#FF8A80'],
+      borders: ['#FFF5F2', '#FADADD', '#F8C8DC', '#F4C2A1'],
+      giftColors: ['#B76E79', '#F4C2A1', '#C2185B', '#FADADD'],
+    },
+    ui: { ...CLASSIC_UI, accent: '#F4C2A1', panel: 'rgba(32, 16, 20, 0.6)', surface: '#1E1114', border: 'rgba(244, 194, 161, 0.3)' },
+  },
+];
+
+const DEFAULT_THEME = BUILTIN_THEMES[0];
+
+// 从调色板中按物体的随机种子取色，换主题时同一物体仍落在对应位置的颜色上
+const pickColor = (palette: string[], seed: number) => palette[Math.floor(seed * palette.length) % palette.length];
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// 校验导入的主题 JSON；缺少的字段沿用经典主题，所以只改几种颜色也是合法主题
+const parseTheme = (raw: unknown): Theme => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('不是有效的主题 JSON');
+  const input = raw as { id?: unknown; name?: unknown; colors?: Partial<ThemeColors>; ui?: Partial<ThemeUi> };
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) throw new Error('缺少主题名称 name');
+
+  const colors = { ...DEFAULT_THEME.colors, ...input.colors };
+  for (const [key, value] of Object.entries(colors)) {
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+    if (values.length === 0 || !values.every(v => typeof v === 'string' && HEX_COLOR.test(v))) {
+      throw new Error(`colors.${key} 需为 #RRGGBB 颜色${Array.isArray(value) ? '数组' : ''}`);
+    }
+  }
+  const ui = { ...DEFAULT_THEME.ui, ...input.ui };
+  for (const [key, value] of Object.entries(ui)) {
+    if (typeof value !== 'string' || !value.trim()) throw new Error(`ui.${key} 需为 CSS 颜色`);
+  }
+
+  const id = typeof input.id === 'string' && input.id.trim() ? input.id.trim().replace(/^custom:/, '') : hashString(name);
+  return { id: `custom:${id}`, name, colors, ui };
+};
+
+const THEME_STORAGE_KEY = 'tree_theme';
+const CUSTOM_THEMES_STORAGE_KEY = 'tree_custom_themes';
+
+// 已保存的自定义主题；单个主题损坏时跳过，不影响其他主题
+const loadCustomThemes = (): Theme[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_THEMES_STORAGE_KEY) || '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap(item => {
+      try {
+        return [parseTheme(item)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+const applyThemeUi = (ui: ThemeUi) => {
+  const root = document.documentElement;
+  for (const [key, name] of Object.entries(THEME_CSS_VARS)) {
+    root.style.setProperty(name, ui[key as keyof ThemeUi]);
   }
 };
 
 // --- Shader Material (Foliage) ---
 const FoliageMaterial = shaderMaterial(
-  { uTime: 0, uColor: new THREE.Color(CONFIG.colors.emerald), uProgress: 0 },
-  `uniform float uTime; uniform float uProgress; attribute vec3 aTargetPos; attribute float aRandom;
+  { uTime: 0, uColor: new THREE.Color(DEFAULT_THEME.colors.emerald), uProgress: 0, uTextProgress: 0 },
+  `uniform float uTime; uniform float uProgress; uniform float uTextProgress; attribute vec3 aTargetPos; attribute vec3 aTextPos; attribute float aRandom;
   varying vec2 vUv; varying float vMix;
   float cubicInOut(float t) { return t < 0.5 ? 4.0 * t * t * t : 0.5 * pow(2.0 * t - 2.0, 3.0) + 1.0; }
   void main() {
     vUv = uv;
     vec3 noise = vec3(sin(uTime * 1.5 + position.x), cos(uTime + position.y), sin(uTime * 1.5 + position.z)) * 0.15;
     float t = cubicInOut(uProgress);
-    vec3 finalPos = mix(position, aTargetPos + noise, t);
+    float textT = cubicInOut(uTextProgress);
+    vec3 treePos = mix(position, aTargetPos + noise, t);
+    vec3 finalPos = mix(treePos, aTextPos + noise * 0.5, textT);
     vec4 mvPosition = modelViewMatrix * vec4(finalPos, 1.0);
     gl_PointSize = (60.0 * (1.0 + aRandom)) / -mvPosition.z;
     gl_Position = projectionMatrix * mvPosition;
-    vMix = t;
+    vMix = max(t, textT);
   }`,
   `uniform vec3 uColor; varying float vMix;
   void main() {
@@ -184,42 +819,439 @@ const FoliageMaterial = shaderMaterial(
 );
 extend({ FoliageMaterial });
 
-// --- Helper: Tree Shape ---
-const getTreePosition = () => {
+// 场景状态：CHAOS 散开 / FORMED 聚合成树 / TEXT 针叶与彩灯拼出标题文字
+type SceneState = 'CHAOS' | 'FORMED' | 'TEXT';
+
+// --- Scene State Machine ---
+// 状态切换集中在这里声明：时长、缓动、各层错峰；各层只按时间轴取进度，新增状态或编排顺序不必改组件
+type SceneLayer = 'foliage' | 'lights' | 'ornaments' | 'elements' | 'star';
+
+const SCENE_EASINGS = {
+  linear: (t: number) => t,
+  easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+type SceneTransition = {
+  from: SceneState | '*';
+  to: SceneState | '*';
+  // 单层动画时长（毫秒），不含错峰延迟
+  duration: number;
+  easing: keyof typeof SCENE_EASINGS;
+  // 各层相对切换时刻的延迟（毫秒），未列出的层立即开始
+  stagger: Partial<Record<SceneLayer, number>>;
+  // 层内每个物体的起步时间在 duration 的这一比例内错开，0 表示整层同步
+  spread: number;
+};
+
+// 自上而下匹配，具体的规则写在通配规则前面
+const SCENE_TRANSITIONS: SceneTransition[] = [
+  // 聚合：针叶先成形，彩灯亮起，再挂照片和礼物，最后点亮星星
+  { from: 'CHAOS', to: 'FORMED', duration: 1800, easing: 'easeInOutCubic', stagger: { lights: 300, ornaments: 700, elements: 900, star: 1700 }, spread: 0.4 },
+  // 散开：星星先熄，外层装饰飞散，针叶最后散开
+  { from: '*', to: 'CHAOS', duration: 1000, easing: 'easeOutCubic', stagger: { ornaments: 100, elements: 100, lights: 200, foliage: 300 }, spread: 0.3 },
+  // 拼字：装饰先让开，针叶拼出文字后彩灯再落到笔画上
+  { from: '*', to: 'TEXT', duration: 2000, easing: 'easeInOutCubic', stagger: { foliage: 300, lights: 900 }, spread: 0.3 },
+  { from: '*', to: '*', duration: 1600, easing: 'easeInOutCubic', stagger: { star: 1000 }, spread: 0.3 },
+];
+
+const findSceneTransition = (from: SceneState, to: SceneState) =>
+  SCENE_TRANSITIONS.find(t => (t.from === '*' || t.from === from) && (t.to === '*' || t.to === to))!;
+
+// 整段过渡（含最慢一层的错峰）的总时长
+const sceneTransitionLength = (transition: SceneTransition) =>
+  transition.duration + Math.max(0, ...Object.values(transition.stagger));
+
+type SceneEvent = { type: 'enter' | 'exit'; state: SceneState; from: SceneState; to: SceneState; transition: SceneTransition };
+
+type SceneMachine = {
+  getState: () => SceneState;
+  go: (to: SceneState) => void;
+  subscribe: (listener: (event: SceneEvent) => void) => () => void;
+};
+
+// 切换时先发出旧状态的 exit，再发出新状态的 enter
+const createSceneMachine = (initial: SceneState): SceneMachine => {
+  let state = initial;
+  const listeners = new Set<(event: SceneEvent) => void>();
+  return {
+    getState: () => state,
+    go: (to) => {
+      if (to === state) return;
+      const from = state;
+      const transition = findSceneTransition(from, to);
+      state = to;
+      listeners.forEach(listener => listener({ type: 'exit', state: from, from, to, transition }));
+      listeners.forEach(listener => listener({ type: 'enter', state: to, from, to, transition }));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+type LayerTimeline = {
+  // 每次切换递增，层据此把当前位置记为新的起点
+  id: number;
+  from: SceneState;
+  to: SceneState;
+  transition: SceneTransition;
+  startedAt: number;
+};
+
+// 某一层的时间轴：target 或 restartKey 变化时从当前位置重新起步（restartKey 用于目标点本身改变，如换了标题）
+const useLayerTimeline = (target: SceneState, restartKey?: unknown) => {
+  const timelineRef = useRef<LayerTimeline>({
+    id: 0, from: target, to: target, transition: findSceneTransition(target, target), startedAt: -Infinity,
+  });
+  const restartKeyRef = useRef(restartKey);
+  useEffect(() => {
+    const prev = timelineRef.current;
+    if (prev.to === target && restartKeyRef.current === restartKey) return;
+    restartKeyRef.current = restartKey;
+    timelineRef.current = {
+      id: prev.id + 1, from: prev.to, to: target,
+      transition: findSceneTransition(prev.to, target), startedAt: performance.now(),
+    };
+  }, [target, restartKey]);
+  return timelineRef;
+};
+
+// 第 index 个物体（共 count 个）在该层时间轴上的缓动进度 0..1
+const layerProgress = (timeline: LayerTimeline, layer: SceneLayer, index = 0, count = 1) => {
+  const { transition, startedAt } = timeline;
+  const offset = count > 1 ? (index / (count - 1)) * transition.spread * transition.duration : 0;
+  const span = transition.duration * (1 - transition.spread);
+  const elapsed = performance.now() - startedAt - (transition.stagger[layer] ?? 0) - offset;
+  return SCENE_EASINGS[transition.easing](MathUtils.clamp(elapsed / span, 0, 1));
+};
+
+// --- Helper: Tree Shapes ---
+// 可插拔的树形：针叶粒子、照片挂件、礼物装饰、彩灯四层都从同一个形状采样，尺寸以 CONFIG.tree 为准
+type TreeShapeId = 'cone' | 'tiered' | 'spiral' | 'heart' | 'star' | 'year2027';
+
+type ShapeSample = { position: THREE.Vector3; normal: THREE.Vector3 };
+
+type TreeShape = {
+  id: TreeShapeId;
+  label: string;
+  // 顶部星星的位置
+  top: [number, number, number];
+  // 形体内部随机一点（针叶粒子）
+  sampleVolume: () => THREE.Vector3;
+  // 表面随机一点与朝外的法线，offset 为沿法线外扩的距离，负值向内（挂件 / 礼物 / 彩灯）
+  sampleSurface: (offset: number) => ShapeSample;
+};
+
+const randomAngle = () => Math.random() * Math.PI * 2;
+
+// 绕 Y 轴的旋转体：radiusAt(t) 为归一化高度 t（0 底部，1 顶部）处的半径
+const revolvedShape = (id: TreeShapeId, label: string, radiusAt: (t: number) => number): TreeShape => {
+  const h = CONFIG.tree.height;
+  return {
+    id, label,
+    top: [0, h / 2 + 1.8, 0],
+    sampleVolume: () => {
+      const t = Math.random(); const theta = randomAngle();
+      const r = Math.random() * radiusAt(t);
+      return new THREE.Vector3(r * Math.cos(theta), t * h - h / 2, r * Math.sin(theta));
+    },
+    sampleSurface: (offset) => {
+      const t = Math.random(); const theta = randomAngle();
+      const r = Math.max(0, radiusAt(t) + offset);
+      return {
+        position: new THREE.Vector3(r * Math.cos(theta), t * h - h / 2, r * Math.sin(theta)),
+        normal: new THREE.Vector3(Math.cos(theta), 0, Math.sin(theta))
+      };
+    }
+  };
+};
+
+// 沿圆锥盘旋而上的彩带：两条螺旋臂，截面为圆管
+const spiralShape = (): TreeShape => {
   const h = CONFIG.tree.height; const rBase = CONFIG.tree.radius;
-  const y = (Math.random() * h) - (h / 2); const normalizedY = (y + (h/2)) / h;
-  const currentRadius = rBase * (1 - normalizedY); const theta = Math.random() * Math.PI * 2;
-  const r = Math.random() * currentRadius;
-  return [r * Math.cos(theta), y, r * Math.sin(theta)];
+  const turns = 4; const arms = 2; const tube = 1.4;
+  // 底部周长更长，按半径加权采样让密度均匀
+  const samplePath = () => {
+    const t = 1 - Math.sqrt(Math.random());
+    const theta = t * turns * Math.PI * 2 + Math.floor(Math.random() * arms) * (Math.PI * 2 / arms);
+    const radial = new THREE.Vector3(Math.cos(theta), 0, Math.sin(theta));
+    const center = radial.clone().multiplyScalar(rBase * (1 - t) + 0.6).setY(t * h - h / 2);
+    return { center, radial };
+  };
+  return {
+    id: 'spiral', label: '螺旋',
+    top: [0, h / 2 + 1.8, 0],
+    sampleVolume: () => {
+      const { center } = samplePath();
+      const dir = new THREE.Vector3().randomDirection();
+      return center.add(dir.multiplyScalar(tube * Math.cbrt(Math.random())));
+    },
+    sampleSurface: (offset) => {
+      // 只取朝外、朝上下的半圈，挂件不会藏到彩带内侧
+      const { center, radial } = samplePath();
+      const phi = (Math.random() - 0.5) * Math.PI;
+      const normal = radial.multiplyScalar(Math.cos(phi)).add(new THREE.Vector3(0, Math.sin(phi), 0));
+      return { position: center.addScaledVector(normal, tube + offset), normal };
+    }
+  };
+};
+
+// 平面图形加厚成立体：inside 判断 (x, y) 是否在图形内，halfDepth 为该处半厚度；挂件分布在正反两面
+const extrudedShape = (
+  id: TreeShapeId, label: string, top: [number, number, number],
+  bounds: { minX: number; maxX: number; minY: number; maxY: number },
+  inside: (x: number, y: number) => boolean,
+  halfDepth: (x: number, y: number) => number
+): TreeShape => {
+  const sampleInside = () => {
+    for (let i = 0; i < 1000; i++) {
+      const x = bounds.minX + Math.random() * (bounds.maxX - bounds.minX);
+      const y = bounds.minY + Math.random() * (bounds.maxY - bounds.minY);
+      if (inside(x, y)) return [x, y];
+    }
+    return [0, 0];
+  };
+  return {
+    id, label, top,
+    sampleVolume: () => {
+      const [x, y] = sampleInside();
+      return new THREE.Vector3(x, y, (Math.random() * 2 - 1) * halfDepth(x, y));
+    },
+    sampleSurface: (offset) => {
+      const [x, y] = sampleInside();
+      const side = Math.random() < 0.5 ? 1 : -1;
+      return {
+        position: new THREE.Vector3(x, y, side * (halfDepth(x, y) + offset)),
+        normal: new THREE.Vector3(0, 0, side)
+      };
+    }
+  };
+};
+
+// 经典心形隐函数 (x²+y²-1)³ - x²y³ ≤ 0，放大到与树同高
+const heartShape = (): TreeShape => {
+  const scale = 13; const shiftY = -1.6;
+  const implicit = (x: number, y: number) => {
+    const u = x / scale; const v = (y - shiftY) / scale;
+    const a = u * u + v * v - 1;
+    return a * a * a - u * u * v * v * v;
+  };
+  return extrudedShape('heart', '爱心', [0, scale + shiftY + 1.8, 0],
+    { minX: -1.2 * scale, maxX: 1.2 * scale, minY: -1.05 * scale + shiftY, maxY: 1.3 * scale + shiftY },
+    (x, y) => implicit(x, y) <= 0,
+    // 中间鼓、边缘薄
+    (x, y) => 1 + 3 * Math.cbrt(Math.max(0, -implicit(x, y))));
+};
+
+// 尖角朝上的五角星
+const starShape = (): TreeShape => {
+  const outer = 15.5; const inner = 6.5; const shiftY = -1.5;
+  const polygon = Array.from({ length: 10 }, (_, i) => {
+    const radius = i % 2 === 0 ? outer : inner;
+    const angle = Math.PI / 2 + (i / 10) * Math.PI * 2;
+    return [radius * Math.cos(angle), radius * Math.sin(angle) + shiftY];
+  });
+  const inside = (x: number, y: number) => {
+    let hit = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const [xi, yi] = polygon[i]; const [xj, yj] = polygon[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) hit = !hit;
+    }
+    return hit;
+  };
+  return extrudedShape('star', '星星', [0, outer + shiftY + 1.8, 0],
+    { minX: -outer, maxX: outer, minY: -outer + shiftY, maxY: outer + shiftY },
+    inside,
+    (x, y) => 0.8 + 3.2 * Math.max(0, 1 - Math.hypot(x, y - shiftY) / outer));
+};
+
+// 笔画（折线）加粗成圆管，用于立体文字
+const strokeShape = (id: TreeShapeId, label: string, top: [number, number, number], strokes: Array<Array<[number, number]>>, radius: number): TreeShape => {
+  const segments = strokes.flatMap(points => points.slice(1).map((p, i) => {
+    const a = new THREE.Vector2(...points[i]); const b = new THREE.Vector2(...p);
+    return { a, b, length: a.distanceTo(b) };
+  }));
+  const total = segments.reduce((sum, seg) => sum + seg.length, 0);
+  const samplePath = () => {
+    let pick = Math.random() * total;
+    const seg = segments.find(item => (pick -= item.length) <= 0) || segments[segments.length - 1];
+    const point = seg.a.clone().lerp(seg.b, Math.random());
+    const dir = seg.b.clone().sub(seg.a).normalize();
+    return { center: new THREE.Vector3(point.x, point.y, 0), side: new THREE.Vector3(-dir.y, dir.x, 0) };
+  };
+  return {
+    id, label, top,
+    sampleVolume: () => {
+      const { center } = samplePath();
+      return center.add(new THREE.Vector3().randomDirection().multiplyScalar(radius * Math.cbrt(Math.random())));
+    },
+    sampleSurface: (offset) => {
+      const { center, side } = samplePath();
+      const phi = randomAngle();
+      const normal = side.multiplyScalar(Math.cos(phi)).add(new THREE.Vector3(0, 0, Math.sin(phi)));
+      return { position: center.addScaledVector(normal, radius + offset), normal };
+    }
+  };
+};
+
+// 立体 “2027”：每个数字是单位方格（左下 0,0 到右上 1,1）内的折线
+const yearShape = (): TreeShape => {
+  const zero: Array<[number, number]> = Array.from({ length: 17 }, (_, i) => {
+    const a = (i / 16) * Math.PI * 2;
+    return [0.5 + 0.48 * Math.cos(a), 0.5 + 0.5 * Math.sin(a)];
+  });
+  const glyphs: Record<string, Array<Array<[number, number]>>> = {
+    '0': [zero],
+    '2': [[[0.05, 0.78], [0.2, 0.95], [0.5, 1], [0.8, 0.95], [0.95, 0.78], [0.9, 0.6], [0.05, 0], [1, 0]]],
+    '7': [[[0, 1], [1, 1], [0.35, 0]]]
+  };
+  const width = 6.5; const height = 16; const gap = 1.6;
+  const text = '2027';
+  const startX = -(text.length * width + (text.length - 1) * gap) / 2;
+  const strokes = [...text].flatMap((ch, k) => glyphs[ch].map(points =>
+    points.map(([u, v]): [number, number] => [startX + k * (width + gap) + u * width, v * height - height / 2])
+  ));
+  return strokeShape('year2027', '2027', [0, height / 2 + 3, 0], strokes, 1);
+};
+
+const TREE_SHAPES: TreeShape[] = [
+  revolvedShape('cone', '经典', t => CONFIG.tree.radius * (1 - t)),
+  // 四层枝叶：每层底部最宽、向上收窄
+  revolvedShape('tiered', '冷杉', t => CONFIG.tree.radius * (1 - t) * (1 - 0.45 * ((t * 4) % 1))),
+  spiralShape(),
+  heartShape(),
+  starShape(),
+  yearShape()
+];
+const DEFAULT_TREE_SHAPE = TREE_SHAPES[0];
+const getTreeShape = (id: string | null) => TREE_SHAPES.find(shape => shape.id === id) || DEFAULT_TREE_SHAPE;
+
+// 换形状时各层先散开，等散开过渡走完再以新形状聚合，与 CHAOS→FORMED 是同一段过渡
+const SHAPE_SCATTER_MS = sceneTransitionLength(findSceneTransition('FORMED', 'CHAOS'));
+
+const useShapeMorph = (shape: TreeShape) => {
+  const [appliedShape, setAppliedShape] = useState(shape);
+  useEffect(() => {
+    if (shape === appliedShape) return;
+    const timer = setTimeout(() => setAppliedShape(shape), SHAPE_SCATTER_MS);
+    return () => clearTimeout(timer);
+  }, [shape, appliedShape]);
+  return { appliedShape, scattering: shape !== appliedShape };
+};
+
+// --- Helper: Title Text Points ---
+// 标题渲染到离屏画布后按像素采样成点云，落在正对镜头的竖直平面上
+const TEXT_FORMATION = { maxWidth: 56, maxHeight: 16, centerY: 4, depth: 1.6, fontSize: 120 };
+
+type TextSampler = (offsetZ: number) => THREE.Vector3;
+
+// 标题为空或画布不可用时返回 null，调用方退回树形
+const createTextSampler = (text: string): TextSampler | null => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  const trimmed = text.trim();
+  if (!ctx || !trimmed) return null;
+
+  const font = `bold ${TEXT_FORMATION.fontSize}px serif`;
+  ctx.font = font;
+  canvas.width = Math.ceil(ctx.measureText(trimmed).width) + 20;
+  canvas.height = Math.ceil(TEXT_FORMATION.fontSize * 1.4);
+  // 修改画布尺寸会重置上下文状态
+  ctx.font = font;
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(trimmed, canvas.width / 2, canvas.height / 2);
+
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const filled: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    if (data[i * 4 + 3] > 128) filled.push(i);
+  }
+  if (filled.length === 0) return null;
+
+  const scale = Math.min(TEXT_FORMATION.maxWidth / width, TEXT_FORMATION.maxHeight / height);
+  return (offsetZ) => {
+    const pixel = filled[Math.floor(Math.random() * filled.length)];
+    const px = (pixel % width) + Math.random();
+    const py = Math.floor(pixel / width) + Math.random();
+    return new THREE.Vector3(
+      (px - width / 2) * scale,
+      (height / 2 - py) * scale + TEXT_FORMATION.centerY,
+      (Math.random() - 0.5) * TEXT_FORMATION.depth + offsetZ
+    );
+  };
+};
+
+const fillShapeVolume = (shape: TreeShape, target: Float32Array) => {
+  for (let i = 0; i < target.length / 3; i++) {
+    shape.sampleVolume().toArray(target, i * 3);
+  }
 };
 
 // --- Component: Foliage ---
-const Foliage = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
+// 各状态下针叶的 [树形进度, 文字进度]；TEXT 时树形进度保持为 1，文字进度从树形直接过渡到标题
+const FOLIAGE_PROGRESS: Record<SceneState, [number, number]> = { CHAOS: [0, 0], FORMED: [1, 0], TEXT: [1, 1] };
+
+const Foliage = ({ state, shape, text, color, count }: { state: SceneState, shape: TreeShape, text: string, color: string, count: number }) => {
   const materialRef = useRef<any>(null);
+  const targetAttrRef = useRef<THREE.BufferAttribute>(null);
+  const { appliedShape, scattering } = useShapeMorph(shape);
+  const timeline = useLayerTimeline(scattering ? 'CHAOS' : state);
+  const startRef = useRef({ id: -1, progress: 0, text: 0 });
+  const filledShapeRef = useRef(appliedShape);
   const { positions, targetPositions, randoms } = useMemo(() => {
-    const count = CONFIG.counts.foliage;
     const positions = new Float32Array(count * 3); const targetPositions = new Float32Array(count * 3); const randoms = new Float32Array(count);
     const spherePoints = random.inSphere(new Float32Array(count * 3), { radius: 25 }) as Float32Array;
     for (let i = 0; i < count; i++) {
       positions[i*3] = spherePoints[i*3]; positions[i*3+1] = spherePoints[i*3+1]; positions[i*3+2] = spherePoints[i*3+2];
-      const [tx, ty, tz] = getTreePosition();
-      targetPositions[i*3] = tx; targetPositions[i*3+1] = ty; targetPositions[i*3+2] = tz;
       randoms[i] = Math.random();
     }
+    fillShapeVolume(filledShapeRef.current, targetPositions);
     return { positions, targetPositions, randoms };
-  }, []);
-  useFrame((rootState, delta) => {
+  }, [count]);
+
+  // 标题点云；没有可用文字时与树形重合
+  const textPositions = useMemo(() => {
+    const sampler = createTextSampler(text);
+    if (!sampler) return targetPositions.slice();
+    const points = new Float32Array(targetPositions.length);
+    for (let i = 0; i < points.length / 3; i++) sampler(0).toArray(points, i * 3);
+    return points;
+  }, [text, targetPositions]);
+
+  useEffect(() => {
+    materialRef.current?.uColor.set(color);
+  }, [color]);
+  useFrame((rootState) => {
     if (materialRef.current) {
       materialRef.current.uTime = rootState.clock.elapsedTime;
-      const targetProgress = state === 'FORMED' ? 1 : 0;
-      materialRef.current.uProgress = MathUtils.damp(materialRef.current.uProgress, targetProgress, 1.5, delta);
+      // 散开阶段结束后才换目标点，此时粒子已接近散开位置，不会跳变
+      if (filledShapeRef.current !== appliedShape && targetAttrRef.current) {
+        fillShapeVolume(appliedShape, targetPositions);
+        targetAttrRef.current.needsUpdate = true;
+        filledShapeRef.current = appliedShape;
+      }
+      const current = timeline.current;
+      if (startRef.current.id !== current.id) {
+        startRef.current = { id: current.id, progress: materialRef.current.uProgress, text: materialRef.current.uTextProgress };
+      }
+      const t = layerProgress(current, 'foliage');
+      const [progress, textProgress] = FOLIAGE_PROGRESS[current.to];
+      materialRef.current.uProgress = MathUtils.lerp(startRef.current.progress, progress, t);
+      materialRef.current.uTextProgress = MathUtils.lerp(startRef.current.text, textProgress, t);
     }
   });
   return (
     <points>
-      <bufferGeometry>
+      {/* 画质换档时粒子数变化，整个几何体重建 */}
+      <bufferGeometry key={count}>
         <bufferAttribute attach="attributes-position" args={[positions, 3]} />
-        <bufferAttribute attach="attributes-aTargetPos" args={[targetPositions, 3]} />
+        <bufferAttribute ref={targetAttrRef} attach="attributes-aTargetPos" args={[targetPositions, 3]} />
+        {/* 标题变化时 args 改变，R3F 会重建该属性 */}
+        <bufferAttribute attach="attributes-aTextPos" args={[textPositions, 3]} />
         <bufferAttribute attach="attributes-aRandom" args={[randoms, 1]} />
       </bufferGeometry>
       {/* @ts-ignore */}
@@ -228,32 +1260,335 @@ const Foliage = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
   );
 };
 
+// --- 视频 / 动图贴图：视频用 VideoTexture，动图用 ImageDecoder 逐帧绘制到 CanvasTexture ---
+// 同时播放的视频 / 动图数量上限，只播放离镜头最近的几张
+const MAX_PLAYING_CLIPS = 3;
+// 动图逐帧绘制的画布边长
+const ANIMATED_TEXTURE_SIZE = 256;
+
+// lib.dom 尚未收录 WebCodecs 的 ImageDecoder，只声明用到的部分
+type ImageDecoderInstance = {
+  completed: Promise<void>;
+  tracks: { ready: Promise<void>; selectedTrack: { frameCount: number } | null };
+  decode: (options: { frameIndex: number }) => Promise<{ image: VideoFrame }>;
+  close: () => void;
+};
+type ImageDecoderConstructor = new (init: { data: ArrayBuffer; type: string }) => ImageDecoderInstance;
+
+type ClipTexture = {
+  texture: THREE.Texture;
+  setPlaying: (playing: boolean) => void;
+  update: (time: number) => void;
+  dispose: () => void;
+};
+
+// 居中裁成正方形，与服务端的 512 贴图一致
+const drawCover = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, width: number, height: number) => {
+  const side = Math.min(width, height);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.drawImage(source, (width - side) / 2, (height - side) / 2, side, side, 0, 0, ctx.canvas.width, ctx.canvas.height);
+};
+
+const createVideoClip = (src: string): ClipTexture => {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.muted = true;
+  video.loop = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = src;
+
+  const texture = new THREE.VideoTexture(video);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  video.addEventListener('loadedmetadata', () => {
+    const { videoWidth: w, videoHeight: h } = video;
+    if (!w || !h) return;
+    texture.repeat.set(Math.min(1, h / w), Math.min(1, w / h));
+    texture.offset.set((1 - texture.repeat.x) / 2, (1 - texture.repeat.y) / 2);
+  });
+  // 暂停时也显示首帧
+  video.addEventListener('loadeddata', () => { texture.needsUpdate = true; });
+
+  return {
+    texture,
+    setPlaying: (playing) => {
+      if (playing && video.paused) video.play().catch(() => null);
+      else if (!playing && !video.paused) video.pause();
+    },
+    update: () => {},
+    dispose: () => {
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      texture.dispose();
+    }
+  };
+};
+
+// 浏览器不支持 ImageDecoder 时返回 null，动图与普通照片一样进图集显示首帧
+const createAnimatedClip = (src: string, poster: string): ClipTexture | null => {
+  const Decoder = (window as unknown as { ImageDecoder?: ImageDecoderConstructor }).ImageDecoder;
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = ANIMATED_TEXTURE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!Decoder || !ctx) return null;
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  let decoder: ImageDecoderInstance | null = null;
+  let frameCount = 0;
+  let frameIndex = 0;
+  let nextFrameAt = 0;
+  let playing = false;
+  let busy = false;
+  let disposed = false;
+
+  // 解码出第一帧之前先显示服务端生成的首帧缩略图
+  const posterImage = new Image();
+  posterImage.crossOrigin = 'anonymous';
+  posterImage.onload = () => {
+    if (disposed || frameIndex > 0) return;
+    drawCover(ctx, posterImage, posterImage.naturalWidth, posterImage.naturalHeight);
+    texture.needsUpdate = true;
+  };
+  posterImage.src = poster;
+
+  fetch(src)
+    .then(res => res.blob())
+    .then(async blob => {
+      const instance = new Decoder({ data: await blob.arrayBuffer(), type: blob.type || 'image/gif' });
+      await instance.tracks.ready;
+      await instance.completed;
+      if (disposed) {
+        instance.close();
+        return;
+      }
+      decoder = instance;
+      frameCount = instance.tracks.selectedTrack?.frameCount || 0;
+    })
+    .catch(err => console.warn('Animated ornament unavailable:', err));
+
+  return {
+    texture,
+    setPlaying: (next) => { playing = next; },
+    update: (time) => {
+      if (!playing || !decoder || busy || frameCount < 2 || time < nextFrameAt) return;
+      busy = true;
+      decoder.decode({ frameIndex })
+        .then(({ image }) => {
+          if (!disposed) {
+            drawCover(ctx, image, image.displayWidth, image.displayHeight);
+            texture.needsUpdate = true;
+          }
+          // duration 单位为微秒，缺省按 10fps
+          nextFrameAt = time + Math.max(0.02, (image.duration ?? 100000) / 1e6);
+          frameIndex = (frameIndex + 1) % frameCount;
+          image.close();
+        })
+        .catch(() => null)
+        .finally(() => { busy = false; });
+    },
+    dispose: () => {
+      disposed = true;
+      decoder?.close();
+      texture.dispose();
+    }
+  };
+};
+
+// --- 照片图集：挂件缩略图在 Worker 中拼成少数几页大贴图，见 photoAtlas.ts ---
+// cells 记录每个贴图地址所在的格子，照片增删、重排后仍能在旧图集里找到原来的照片
+type PhotoAtlas = { key: string; pages: THREE.Texture[]; layout: AtlasLayout; cells: Map<string, number>; dispose: () => void };
+
+const buildAtlasInWorker = (request: AtlasRequest) => new Promise<ImageBitmap[]>((resolve, reject) => {
+  const worker = new Worker(new URL('./photoAtlas.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<AtlasResponse>) => {
+    worker.terminate();
+    if ('error' in e.data) reject(new Error(e.data.error));
+    else resolve(e.data.pages);
+  };
+  worker.onerror = (e) => {
+    worker.terminate();
+    reject(e.error ?? new Error(e.message));
+  };
+  worker.postMessage(request);
+});
+
+// Worker 或 OffscreenCanvas 不可用时退回主线程拼接
+const buildPhotoAtlas = async (key: string, urls: (string | null)[]): Promise<PhotoAtlas> => {
+  const layout = atlasLayout(urls.length);
+  // Worker 里的相对地址按脚本位置解析，先转成绝对地址
+  const absoluteUrls = urls.map(url => (url ? new URL(url, location.href).href : null));
+  let sources: (ImageBitmap | HTMLCanvasElement)[];
+  try {
+    if (typeof OffscreenCanvas === 'undefined') throw new Error('OffscreenCanvas is not supported');
+    sources = await buildAtlasInWorker({ urls: absoluteUrls, layout });
+  } catch (err) {
+    console.warn('[PhotoAtlas] Building on the main thread:', err);
+    sources = await drawAtlasPages(absoluteUrls, layout, size => {
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = size;
+      return canvas;
+    });
+  }
+  const pages = sources.map(source => {
+    const texture = new THREE.Texture(source);
+    // ImageBitmap 无法在上传时翻转，统一不翻转，由 atlasRect 的负 v 缩放处理
+    texture.flipY = false;
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.anisotropy = 4;
+    texture.needsUpdate = true;
+    return texture;
+  });
+  return {
+    key, pages, layout,
+    cells: new Map(urls.flatMap((url, i) => (url ? [[url, i] as const] : []))),
+    dispose: () => pages.forEach(texture => {
+      texture.dispose();
+      if (texture.image instanceof ImageBitmap) texture.image.close();
+    })
+  };
+};
+
+// url 为 null 的照片不进图集；贴图地址带原文件修改时间，重新拉取列表不会触发重建。
+// 照片列表变化后、新图集就绪前继续返回旧图集，就绪后才释放旧图集
+const usePhotoAtlas = (urls: (string | null)[]) => {
+  const [atlas, setAtlas] = useState<PhotoAtlas | null>(null);
+  const key = JSON.stringify(urls);
+  useEffect(() => {
+    let cancelled = false;
+    buildPhotoAtlas(key, JSON.parse(key))
+      .then(next => {
+        if (cancelled) next.dispose();
+        else setAtlas(next);
+      })
+      .catch(err => console.error('[PhotoAtlas] Failed to build atlas:', err));
+    return () => { cancelled = true; };
+  }, [key]);
+  useEffect(() => () => atlas?.dispose(), [atlas]);
+  return atlas;
+};
+
+// --- 视频 / 动图贴图：按照片地址缓存，照片列表重新拉取后沿用原来的贴图，播放不中断 ---
+type ClipSpec = { kind: PhotoKind; src: string; poster: string };
+const clipKeyOf = (spec: ClipSpec) => `${spec.kind}:${spec.src}`;
+
+// 返回值与 photos 一一对应：null 为普通照片或浏览器无法解码的动图（进图集），undefined 为贴图尚未创建
+const usePhotoClips = (photos: PhotoItem[]) => {
+  const cacheRef = useRef(new Map<string, ClipTexture | null>());
+  const [clipMap, setClipMap] = useState<ReadonlyMap<string, ClipTexture | null>>(() => new Map());
+  const specs = useMemo(() => photos.map(p => (p.kind ? { kind: p.kind, src: p.src, poster: p.ornament } : null)), [photos]);
+  const specKey = JSON.stringify(specs.filter(Boolean));
+
+  // 只创建新增的、释放已移除的
+  useEffect(() => {
+    const cache = cacheRef.current;
+    const wanted = new Map((JSON.parse(specKey) as ClipSpec[]).map(spec => [clipKeyOf(spec), spec]));
+    cache.forEach((clip, key) => {
+      if (wanted.has(key)) return;
+      clip?.dispose();
+      cache.delete(key);
+    });
+    wanted.forEach((spec, key) => {
+      if (!cache.has(key)) cache.set(key, spec.kind === 'video' ? createVideoClip(spec.src) : createAnimatedClip(spec.src, spec.poster));
+    });
+    setClipMap(new Map(cache));
+  }, [specKey]);
+  useEffect(() => {
+    const cache = cacheRef.current;
+    return () => {
+      cache.forEach(clip => clip?.dispose());
+      cache.clear();
+    };
+  }, []);
+
+  return useMemo(() => specs.map(spec => (spec ? clipMap.get(clipKeyOf(spec)) : null)), [specs, clipMap]);
+};
+
+// --- Helper: Instanced Layers ---
+// 每层装饰用少量 InstancedMesh 绘制：变换写入 instanceMatrix，颜色写入 instanceColor，
+// 自发光（颜色 × 强度）写入几何体上的 instanceEmissive 属性，再乘到材质的 emissive 上。
+// atlasUv 为 true 时贴图坐标再按 instanceUvRect 映射到图集中的一格
+const patchInstanceEmissive = <T extends THREE.MeshStandardMaterial>(material: T, atlasUv = false) => {
+  material.onBeforeCompile = shader => {
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nattribute vec3 instanceEmissive;\nvarying vec3 vInstanceEmissive;')
+      .replace('#include <begin_vertex>', '#include <begin_vertex>\nvInstanceEmissive = instanceEmissive;');
+    if (atlasUv) {
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', '#include <common>\nattribute vec4 instanceUvRect;')
+        .replace('#include <uv_vertex>', [
+          '#include <uv_vertex>',
+          '#ifdef USE_MAP\nvMapUv = instanceUvRect.xy + vMapUv * instanceUvRect.zw;\n#endif',
+          '#ifdef USE_EMISSIVEMAP\nvEmissiveMapUv = instanceUvRect.xy + vEmissiveMapUv * instanceUvRect.zw;\n#endif',
+        ].join('\n'));
+    }
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nvarying vec3 vInstanceEmissive;')
+      .replace('vec3 totalEmissiveRadiance = emissive;', 'vec3 totalEmissiveRadiance = emissive * vInstanceEmissive;');
+  };
+  // 默认缓存键是 onBeforeCompile 的源码，两种变体源码相同，需区分
+  material.customProgramCacheKey = () => (atlasUv ? 'instance-emissive-atlas' : 'instance-emissive');
+  return material;
+};
+
+// 几何体会被复制一份以挂上 instanceEmissive（及图集 UV）；实例随动画移动，包围球不准，关闭视锥剔除
+const createInstancedLayer = (geometry: THREE.BufferGeometry, material: THREE.Material, count: number, uvRects?: AtlasRect[]) => {
+  const layerGeometry = geometry.clone();
+  const emissive = new THREE.InstancedBufferAttribute(new Float32Array(count * 3).fill(1), 3);
+  emissive.setUsage(THREE.DynamicDrawUsage);
+  layerGeometry.setAttribute('instanceEmissive', emissive);
+  if (uvRects) layerGeometry.setAttribute('instanceUvRect', new THREE.InstancedBufferAttribute(new Float32Array(uvRects.flat()), 4));
+  const mesh = new THREE.InstancedMesh(layerGeometry, material, count);
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+  // 首次渲染前就建好 instanceColor，着色器才会编译进逐实例颜色
+  mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(count * 3).fill(1), 3);
+  mesh.frustumCulled = false;
+  return mesh;
+};
+
+const setInstanceEmissive = (mesh: THREE.InstancedMesh, index: number, color: THREE.Color, intensity: number) => {
+  const attribute = mesh.geometry.getAttribute('instanceEmissive') as THREE.InstancedBufferAttribute;
+  attribute.setXYZ(index, color.r * intensity, color.g * intensity, color.b * intensity);
+  attribute.needsUpdate = true;
+};
+
+const disposeInstancedLayer = (mesh: THREE.InstancedMesh) => {
+  mesh.geometry.dispose();
+  mesh.dispose();
+};
+
 // --- Component: Photo Ornaments (Double-Sided Polaroid) ---
-const PhotoOrnaments = ({ state, onPhotoClick, groupRef, hoveredIndex, photos }: { state: 'CHAOS' | 'FORMED', onPhotoClick: (index: number) => void, groupRef: React.RefObject<THREE.Group>, hoveredIndex: number | null, photos: string[] }) => {
+// 供捏合选图使用：每个挂件的当前位置与对应的照片序号
+type OrnamentSlot = { position: THREE.Vector3; textureIndex: number };
+
+// 拍立得正反两面合成一个几何体：照片在前，边框略靠后并向下偏移留出底边
+const POLAROID_PHOTO_GEOMETRY = mergeGeometries([
+  new THREE.PlaneGeometry(1, 1).translate(0, 0, 0.015),
+  new THREE.PlaneGeometry(1, 1).rotateY(Math.PI).translate(0, 0, -0.015),
+]);
+const POLAROID_BORDER_GEOMETRY = mergeGeometries([
+  new THREE.PlaneGeometry(1.2, 1.5).translate(0, -0.15, 0.005),
+  new THREE.PlaneGeometry(1.2, 1.5).rotateY(Math.PI).translate(0, -0.15, -0.005),
+]);
+
+const PhotoOrnaments = ({ state, shape, colors, count, onPhotoClick, onPhotoHover, slotsRef, hoveredIndex, photos }: { state: SceneState, shape: TreeShape, colors: ThemeColors, count: number, onPhotoClick: (index: number) => void, onPhotoHover: (slot: number | null) => void, slotsRef: React.MutableRefObject<OrnamentSlot[]>, hoveredIndex: number | null, photos: PhotoItem[] }) => {
   // 安全检查：如果 photos 为空或未定义，则不加载纹理，避免崩溃
   if (!photos || photos.length === 0) return null;
-  const textures = useTexture(photos);
-  const count = CONFIG.counts.ornaments;
-  const internalGroupRef = useRef<THREE.Group>(null);
-
-  // 使用传入的 ref 或内部 ref
-  const actualGroupRef = groupRef || internalGroupRef;
-
-  const borderGeometry = useMemo(() => new THREE.PlaneGeometry(1.2, 1.5), []);
-  const photoGeometry = useMemo(() => new THREE.PlaneGeometry(1, 1), []);
+  // 视频 / 动图按照片各建一份动态贴图，同一张照片的所有挂件共用
+  const clips = usePhotoClips(photos);
+  // 其余照片使用服务端生成的缩略图拼成图集；动态贴图创建中的照片不进图集，避免图集先带上首帧再重建
+  const atlasUrls = useMemo(() => photos.map((p, i) => (clips[i] === null ? p.ornament : null)), [photos, clips]);
+  const atlas = usePhotoAtlas(atlasUrls);
+  const lastClipCheck = useRef(-Infinity);
 
   const data = useMemo(() => {
-    return new Array(count).fill(0).map((_, i) => {
+    const items = new Array(count).fill(0).map(() => {
       // 让Y轴分布更偏向底部（更小的负Y值），使用大于1的幂次让更多值靠近0（对应yPos=-35底部）
       // yRandom范围0-1，映射到-35到35，让更多值靠近0（底部）
       const yRandom = Math.pow(Math.random(), 2.0); // 使用大于1的幂次，让更多值靠近0（底部密集）
       const yPos = -35 + yRandom * 70; // -35（底部）到35（顶部），更多在-35附近
       const chaosPos = new THREE.Vector3((Math.random()-0.5)*70, yPos, (Math.random()-0.5)*70);
-      const h = CONFIG.tree.height; const y = (Math.random() * h) - (h / 2);
-      const rBase = CONFIG.tree.radius;
-      const currentRadius = (rBase * (1 - (y + (h/2)) / h)) + 0.5;
-      const theta = Math.random() * Math.PI * 2;
-      const targetPos = new THREE.Vector3(currentRadius * Math.cos(theta), y, currentRadius * Math.sin(theta));
 
       // 树形状态：照片更小
       const formedScale = 0.3 + Math.random() * 0.2; // 0.3-0.5 很小
@@ -262,129 +1597,213 @@ const PhotoOrnaments = ({ state, onPhotoClick, groupRef, hoveredIndex, photos }:
       const depthFactor = (chaosPos.z + 35) / 70; // 归一化到0-1，越靠前越大
       const chaosScale = 1.2 + depthFactor * 2.5; // 1.2-3.7 范围，前面的图片更大
 
-      const weight = 0.8 + Math.random() * 1.2;
-      const borderColor = CONFIG.colors.borders[Math.floor(Math.random() * CONFIG.colors.borders.length)];
+      const borderSeed = Math.random();
 
       const rotationSpeed = {
         x: (Math.random() - 0.5) * 1.0,
         y: (Math.random() - 0.5) * 1.0,
         z: (Math.random() - 0.5) * 1.0
       };
-      const chaosRotation = new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI);
+      // 不在场景中的占位对象，只用来累积旋转并合成实例矩阵
+      const object = new THREE.Object3D();
+      object.rotation.set(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI);
 
       return {
-        chaosPos, targetPos, formedScale, chaosScale, weight,
-        textureIndex: i % textures.length,
-        borderColor,
+        chaosPos, formedScale, chaosScale,
+        borderSeed,
         currentPos: chaosPos.clone(),
-        chaosRotation,
+        startPos: chaosPos.clone(),
+        startScale: chaosScale,
+        hoverScale: 1,
+        object,
         rotationSpeed,
         wobbleOffset: Math.random() * 10,
         wobbleSpeed: 0.5 + Math.random() * 0.5
       };
     });
-  }, [textures, count]);
+
+    return items;
+  }, [count]);
+
+  const { appliedShape, scattering } = useShapeMorph(shape);
+
+  // 挂件在形状表面的位置与朝向；按高度从高到低分配照片：排在前面的照片最先出现在靠近顶部星星的位置
+  const layout = useMemo(() => {
+    const targets = data.map(() => appliedShape.sampleSurface(0.5));
+    const textureIndices = new Array<number>(targets.length).fill(0);
+    targets
+      .map((target, i) => ({ i, y: target.position.y }))
+      .sort((a, b) => b.y - a.y)
+      .forEach(({ i }, rank) => {
+        textureIndices[i] = rank % photos.length;
+      });
+    return { targets, textureIndices };
+  }, [data, appliedShape, photos]);
+
+  useEffect(() => {
+    slotsRef.current = data.map((objData, i) => ({ position: objData.currentPos, textureIndex: layout.textureIndices[i] }));
+  }, [data, layout, slotsRef]);
+
+  // 边框共用一个 InstancedMesh；照片每页图集一个 InstancedMesh，视频 / 动图各自一个
+  const borderMaterial = useMemo(() => new THREE.MeshStandardMaterial({ roughness: 0.9, metalness: 0, side: THREE.FrontSide }), []);
+  const borderMesh = useMemo(() => createInstancedLayer(POLAROID_BORDER_GEOMETRY, borderMaterial, data.length), [borderMaterial, data]);
+  const photoLayers = useMemo(() => {
+    const createLayer = (key: string, map: THREE.Texture, instances: number[], uvRects?: AtlasRect[]) => {
+      const material = patchInstanceEmissive(new THREE.MeshStandardMaterial({
+        map, emissiveMap: map, emissive: '#FFFFFF', roughness: 0.5, metalness: 0, side: THREE.FrontSide,
+      }), Boolean(uvRects));
+      return { key, instances, mesh: createInstancedLayer(POLAROID_PHOTO_GEOMETRY, material, instances.length, uvRects) };
+    };
+    const layers: ReturnType<typeof createLayer>[] = [];
+    // 按贴图地址查格子；旧图集里还没有的新照片暂不显示，等新图集就绪
+    const cells = layout.textureIndices.map(t => {
+      const url = atlasUrls[t];
+      return url ? atlas?.cells.get(url) : undefined;
+    });
+    atlas?.pages.forEach((page, pageIndex) => {
+      const instances = cells.flatMap((cell, i) => (cell !== undefined && atlasCell(atlas.layout, cell).page === pageIndex ? [i] : []));
+      if (instances.length === 0) return;
+      layers.push(createLayer(`atlas-${pageIndex}`, page, instances, instances.map(i => atlasRect(atlas.layout, cells[i]!))));
+    });
+    clips.forEach((clip, textureIndex) => {
+      const instances = layout.textureIndices.flatMap((t, i) => (t === textureIndex ? [i] : []));
+      if (!clip || instances.length === 0) return;
+      layers.push(createLayer(`clip-${textureIndex}`, clip.texture, instances));
+    });
+    return layers;
+  }, [atlas, atlasUrls, clips, layout]);
+
+  useEffect(() => () => {
+    disposeInstancedLayer(borderMesh);
+  }, [borderMesh]);
+  useEffect(() => () => {
+    photoLayers.forEach(layer => {
+      (layer.mesh.material as THREE.Material).dispose();
+      disposeInstancedLayer(layer.mesh);
+    });
+  }, [photoLayers]);
+  useEffect(() => () => borderMaterial.dispose(), [borderMaterial]);
+
+  // 主题与悬停高亮只在变化时写入颜色
+  useEffect(() => {
+    const color = new THREE.Color();
+    data.forEach((objData, i) => {
+      borderMesh.setColorAt(i, color.set(hoveredIndex === i ? colors.gold : pickColor(colors.borders, objData.borderSeed)));
+    });
+    borderMesh.instanceColor!.needsUpdate = true;
+    photoLayers.forEach(layer => layer.instances.forEach((i, slot) => {
+      const hovered = hoveredIndex === i;
+      setInstanceEmissive(layer.mesh, slot, color.set(hovered ? colors.gold : colors.white), hovered ? 1.5 : 1.0);
+    }));
+  }, [data, colors, hoveredIndex, borderMesh, photoLayers]);
+
+  const timeline = useLayerTimeline(scattering ? 'CHAOS' : state);
+  const startedId = useRef(-1);
+  const lookTarget = useMemo(() => new THREE.Vector3(), []);
 
   useFrame((stateObj, delta) => {
-    if (!actualGroupRef.current) return;
-    const isFormed = state === 'FORMED';
+    const current = timeline.current;
+    const isFormed = current.to === 'FORMED';
     const time = stateObj.clock.elapsedTime;
+    if (startedId.current !== current.id) {
+      startedId.current = current.id;
+      data.forEach(objData => {
+        objData.startPos.copy(objData.currentPos);
+        objData.startScale = objData.object.scale.x / objData.hoverScale;
+      });
+    }
 
-    actualGroupRef.current.children.forEach((group, i) => {
-      const objData = data[i];
-      const target = isFormed ? objData.targetPos : objData.chaosPos;
+    data.forEach((objData, i) => {
+      const { object } = objData;
+      const target = isFormed ? layout.targets[i].position : objData.chaosPos;
+      const t = layerProgress(current, 'ornaments', i, data.length);
 
-      objData.currentPos.lerp(target, delta * (isFormed ? 0.8 * objData.weight : 0.5));
-      group.position.copy(objData.currentPos);
+      objData.currentPos.lerpVectors(objData.startPos, target, t);
+      object.position.copy(objData.currentPos);
+      // 散开时照片按远近放大，拼字 / 成树时缩小
+      object.scale.setScalar(MathUtils.lerp(objData.startScale, current.to === 'CHAOS' ? objData.chaosScale : objData.formedScale, t));
+      // 鼠标悬停的照片放大一些
+      objData.hoverScale = MathUtils.lerp(objData.hoverScale, hoveredIndex === i ? 1.35 : 1, Math.min(1, delta * 12));
+      object.scale.multiplyScalar(objData.hoverScale);
 
       if (isFormed) {
-         const targetLookPos = new THREE.Vector3(group.position.x * 2, group.position.y + 0.5, group.position.z * 2);
-         group.lookAt(targetLookPos);
+         // 照片正面朝向形状表面的外侧
+         object.lookAt(lookTarget.copy(object.position).add(layout.targets[i].normal));
 
          const wobbleX = Math.sin(time * objData.wobbleSpeed + objData.wobbleOffset) * 0.05;
          const wobbleZ = Math.cos(time * objData.wobbleSpeed * 0.8 + objData.wobbleOffset) * 0.05;
-         group.rotation.x += wobbleX;
-         group.rotation.z += wobbleZ;
+         object.rotation.x += wobbleX;
+         object.rotation.z += wobbleZ;
 
       } else {
-         group.rotation.x += delta * objData.rotationSpeed.x;
-         group.rotation.y += delta * objData.rotationSpeed.y;
-         group.rotation.z += delta * objData.rotationSpeed.z;
+         object.rotation.x += delta * objData.rotationSpeed.x;
+         object.rotation.y += delta * objData.rotationSpeed.y;
+         object.rotation.z += delta * objData.rotationSpeed.z;
       }
+      object.updateMatrix();
+      borderMesh.setMatrixAt(i, object.matrix);
     });
+    // 实例每帧都在移动，清掉包围球，点击时射线检测会按当前位置重新计算
+    borderMesh.instanceMatrix.needsUpdate = true;
+    borderMesh.boundingSphere = null;
+    photoLayers.forEach(layer => {
+      layer.instances.forEach((i, slot) => layer.mesh.setMatrixAt(slot, data[i].object.matrix));
+      layer.mesh.instanceMatrix.needsUpdate = true;
+      layer.mesh.boundingSphere = null;
+    });
+
+    // 每 0.25 秒挑出离镜头最近的几张视频 / 动图播放，其余暂停
+    if (!clips.some(Boolean)) return;
+    if (time - lastClipCheck.current > 0.25) {
+      lastClipCheck.current = time;
+      const nearest = new Map<number, number>();
+      data.forEach((objData, i) => {
+        const index = layout.textureIndices[i];
+        if (!clips[index]) return;
+        const distance = objData.currentPos.distanceToSquared(stateObj.camera.position);
+        if (distance < (nearest.get(index) ?? Infinity)) nearest.set(index, distance);
+      });
+      const playing = new Set(
+        [...nearest.entries()].sort((a, b) => a[1] - b[1]).slice(0, MAX_PLAYING_CLIPS).map(([index]) => index)
+      );
+      clips.forEach((clip, index) => clip?.setPlaying(playing.has(index)));
+    }
+    clips.forEach(clip => clip?.update(time));
+  });
+
+  // 事件里的 instanceId 换算成挂件下标；边框层的实例与挂件一一对应
+  const pointerHandlers = (toSlot: (instanceId: number) => number) => ({
+    onClick: (e: any) => {
+      e.stopPropagation();
+      // 拖动旋转视角后松开不算点击
+      if (e.instanceId !== undefined && e.delta <= 4) onPhotoClick(layout.textureIndices[toSlot(e.instanceId)]);
+    },
+    onPointerOver: (e: any) => {
+      e.stopPropagation();
+      if (e.instanceId !== undefined) onPhotoHover(toSlot(e.instanceId));
+    },
+    onPointerOut: () => onPhotoHover(null),
   });
 
   return (
-    <group ref={actualGroupRef}>
-      {data.map((obj, i) => {
-        const currentScale = state === 'CHAOS' ? obj.chaosScale : obj.formedScale;
-        return (
-        <group
-          key={i}
-          scale={[currentScale, currentScale, currentScale]}
-          rotation={state === 'CHAOS' ? obj.chaosRotation : [0,0,0]}
-          onClick={(e) => {
-            e.stopPropagation();
-            onPhotoClick(obj.textureIndex);
-          }}
-        >
-          {/* 正面 */}
-          <group position={[0, 0, 0.015]}>
-            <mesh geometry={photoGeometry}>
-              <meshStandardMaterial
-                map={textures[obj.textureIndex]}
-                roughness={0.5} metalness={0}
-                emissive={hoveredIndex === i ? CONFIG.colors.gold : CONFIG.colors.white}
-                emissiveMap={textures[obj.textureIndex]}
-                emissiveIntensity={hoveredIndex === i ? 1.5 : 1.0}
-                side={THREE.FrontSide}
-              />
-            </mesh>
-            <mesh geometry={borderGeometry} position={[0, -0.15, -0.01]}>
-              <meshStandardMaterial
-                color={hoveredIndex === i ? CONFIG.colors.gold : obj.borderColor}
-                roughness={0.9}
-                metalness={0}
-                side={THREE.FrontSide}
-              />
-            </mesh>
-          </group>
-          {/* 背面 */}
-          <group position={[0, 0, -0.015]} rotation={[0, Math.PI, 0]}>
-            <mesh geometry={photoGeometry}>
-              <meshStandardMaterial
-                map={textures[obj.textureIndex]}
-                roughness={0.5} metalness={0}
-                emissive={hoveredIndex === i ? CONFIG.colors.gold : CONFIG.colors.white}
-                emissiveMap={textures[obj.textureIndex]}
-                emissiveIntensity={hoveredIndex === i ? 1.5 : 1.0}
-                side={THREE.FrontSide}
-              />
-            </mesh>
-            <mesh geometry={borderGeometry} position={[0, -0.15, -0.01]}>
-              <meshStandardMaterial
-                color={hoveredIndex === i ? CONFIG.colors.gold : obj.borderColor}
-                roughness={0.9}
-                metalness={0}
-                side={THREE.FrontSide}
-              />
-            </mesh>
-          </group>
-        </group>
-        )
-      })}
+    <group>
+      <primitive object={borderMesh} {...pointerHandlers(instanceId => instanceId)} />
+      {photoLayers.map(layer => (
+        <primitive key={layer.key} object={layer.mesh} {...pointerHandlers(instanceId => layer.instances[instanceId])} />
+      ))}
     </group>
   );
 };
 
 // --- Component: Christmas Elements ---
-const ChristmasElements = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
-  const count = CONFIG.counts.elements;
-  const groupRef = useRef<THREE.Group>(null);
+// 礼物盒 / 彩球 / 拐杖糖，按 type 下标对应
+const ELEMENT_GEOMETRIES = [
+  new THREE.BoxGeometry(0.8, 0.8, 0.8),
+  new THREE.SphereGeometry(0.5, 16, 16),
+  new THREE.CylinderGeometry(0.15, 0.15, 1.2, 8),
+];
 
-  const boxGeometry = useMemo(() => new THREE.BoxGeometry(0.8, 0.8, 0.8), []);
-  const sphereGeometry = useMemo(() => new THREE.SphereGeometry(0.5, 16, 16), []);
-  const caneGeometry = useMemo(() => new THREE.CylinderGeometry(0.15, 0.15, 1.2, 8), []);
+const ChristmasElements = ({ state, shape, colors, count }: { state: SceneState, shape: TreeShape, colors: ThemeColors, count: number }) => {
 
   const data = useMemo(() => {
     return new Array(count).fill(0).map(() => {
@@ -393,54 +1812,83 @@ const ChristmasElements = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
       const yRandom = Math.pow(Math.random(), 2.0); // 使用大于1的幂次，让更多值靠近0（底部密集）
       const yPos = -30 + yRandom * 60; // -30（底部）到30（顶部），更多在-30附近
       const chaosPos = new THREE.Vector3((Math.random()-0.5)*60, yPos, (Math.random()-0.5)*60);
-      const h = CONFIG.tree.height;
-      const y = (Math.random() * h) - (h / 2);
-      const rBase = CONFIG.tree.radius;
-      const currentRadius = (rBase * (1 - (y + (h/2)) / h)) * 0.95;
-      const theta = Math.random() * Math.PI * 2;
-
-      const targetPos = new THREE.Vector3(currentRadius * Math.cos(theta), y, currentRadius * Math.sin(theta));
 
       const type = Math.floor(Math.random() * 3);
-      let color; let scale = 1;
-      if (type === 0) { color = CONFIG.colors.giftColors[Math.floor(Math.random() * CONFIG.colors.giftColors.length)]; scale = 0.8 + Math.random() * 0.4; }
-      else if (type === 1) { color = CONFIG.colors.giftColors[Math.floor(Math.random() * CONFIG.colors.giftColors.length)]; scale = 0.6 + Math.random() * 0.4; }
-      else { color = Math.random() > 0.5 ? CONFIG.colors.red : CONFIG.colors.white; scale = 0.7 + Math.random() * 0.3; }
+      // 颜色在渲染时按主题取，这里只记种子
+      const colorSeed = Math.random();
+      let scale = 1;
+      if (type === 0) { scale = 0.8 + Math.random() * 0.4; }
+      else if (type === 1) { scale = 0.6 + Math.random() * 0.4; }
+      else { scale = 0.7 + Math.random() * 0.3; }
 
       const rotationSpeed = { x: (Math.random()-0.5)*2.0, y: (Math.random()-0.5)*2.0, z: (Math.random()-0.5)*2.0 };
-      return { type, chaosPos, targetPos, color, scale, currentPos: chaosPos.clone(), chaosRotation: new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI), rotationSpeed };
+      const object = new THREE.Object3D();
+      object.rotation.set(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI);
+      object.scale.setScalar(scale);
+      return { type, chaosPos, colorSeed, currentPos: chaosPos.clone(), startPos: chaosPos.clone(), object, rotationSpeed };
     });
   }, [count]);
 
+  // 三种造型各一个 InstancedMesh，共用材质；自发光为实例颜色的 0.2 倍
+  const material = useMemo(() => patchInstanceEmissive(new THREE.MeshStandardMaterial({ roughness: 0.3, metalness: 0.4, emissive: '#FFFFFF', emissiveIntensity: 0.2 })), []);
+  const layers = useMemo(() => ELEMENT_GEOMETRIES.map((geometry, type) => {
+    const instances = data.flatMap((objData, i) => (objData.type === type ? [i] : []));
+    return { instances, mesh: createInstancedLayer(geometry, material, instances.length) };
+  }), [data, material]);
+  useEffect(() => () => layers.forEach(layer => disposeInstancedLayer(layer.mesh)), [layers]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useEffect(() => {
+    const color = new THREE.Color();
+    layers.forEach(({ instances, mesh }) => {
+      instances.forEach((i, slot) => {
+        const objData = data[i];
+        color.set(objData.type === 2 ? (objData.colorSeed > 0.5 ? colors.red : colors.white) : pickColor(colors.giftColors, objData.colorSeed));
+        mesh.setColorAt(slot, color);
+        setInstanceEmissive(mesh, slot, color, 1);
+      });
+      mesh.instanceColor!.needsUpdate = true;
+    });
+  }, [data, layers, colors]);
+
+  const { appliedShape, scattering } = useShapeMorph(shape);
+  // 略微嵌入表面，礼物像是挂在枝叶里
+  const targets = useMemo(() => data.map(() => appliedShape.sampleSurface(-0.4).position), [data, appliedShape]);
+  const timeline = useLayerTimeline(scattering ? 'CHAOS' : state);
+  const startedId = useRef(-1);
+
   useFrame((_, delta) => {
-    if (!groupRef.current) return;
-    const isFormed = state === 'FORMED';
-    groupRef.current.children.forEach((child, i) => {
-      const mesh = child as THREE.Mesh;
-      const objData = data[i];
-      const target = isFormed ? objData.targetPos : objData.chaosPos;
-      objData.currentPos.lerp(target, delta * 1.5);
-      mesh.position.copy(objData.currentPos);
-      mesh.rotation.x += delta * objData.rotationSpeed.x; mesh.rotation.y += delta * objData.rotationSpeed.y; mesh.rotation.z += delta * objData.rotationSpeed.z;
+    const current = timeline.current;
+    if (startedId.current !== current.id) {
+      startedId.current = current.id;
+      data.forEach(objData => objData.startPos.copy(objData.currentPos));
+    }
+    layers.forEach(({ instances, mesh }) => {
+      instances.forEach((i, slot) => {
+        const objData = data[i];
+        const { object } = objData;
+        const target = current.to === 'FORMED' ? targets[i] : objData.chaosPos;
+        objData.currentPos.lerpVectors(objData.startPos, target, layerProgress(current, 'elements', i, data.length));
+        object.position.copy(objData.currentPos);
+        object.rotation.x += delta * objData.rotationSpeed.x; object.rotation.y += delta * objData.rotationSpeed.y; object.rotation.z += delta * objData.rotationSpeed.z;
+        object.updateMatrix();
+        mesh.setMatrixAt(slot, object.matrix);
+      });
+      mesh.instanceMatrix.needsUpdate = true;
     });
   });
 
   return (
-    <group ref={groupRef}>
-      {data.map((obj, i) => {
-        let geometry; if (obj.type === 0) geometry = boxGeometry; else if (obj.type === 1) geometry = sphereGeometry; else geometry = caneGeometry;
-        return ( <mesh key={i} scale={[obj.scale, obj.scale, obj.scale]} geometry={geometry} rotation={obj.chaosRotation}>
-          <meshStandardMaterial color={obj.color} roughness={0.3} metalness={0.4} emissive={obj.color} emissiveIntensity={0.2} />
-        </mesh> )})}
+    <group>
+      {layers.map((layer, type) => <primitive key={type} object={layer.mesh} />)}
     </group>
   );
 };
 
 // --- Component: Fairy Lights ---
-const FairyLights = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
-  const count = CONFIG.counts.lights;
-  const groupRef = useRef<THREE.Group>(null);
-  const geometry = useMemo(() => new THREE.SphereGeometry(0.8, 8, 8), []);
+const LIGHT_GEOMETRY = new THREE.SphereGeometry(0.8, 8, 8);
+
+const FairyLights = ({ state, shape, text, palette, count }: { state: SceneState, shape: TreeShape, text: string, palette: string[], count: number }) => {
 
   const data = useMemo(() => {
     return new Array(count).fill(0).map(() => {
@@ -449,35 +1897,204 @@ const FairyLights = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
       const yRandom = Math.pow(Math.random(), 2.0); // 使用大于1的幂次，让更多值靠近0（底部密集）
       const yPos = -30 + yRandom * 60; // -30（底部）到30（顶部），更多在-30附近
       const chaosPos = new THREE.Vector3((Math.random()-0.5)*60, yPos, (Math.random()-0.5)*60);
-      const h = CONFIG.tree.height; const y = (Math.random() * h) - (h / 2); const rBase = CONFIG.tree.radius;
-      const currentRadius = (rBase * (1 - (y + (h/2)) / h)) + 0.3; const theta = Math.random() * Math.PI * 2;
-      const targetPos = new THREE.Vector3(currentRadius * Math.cos(theta), y, currentRadius * Math.sin(theta));
-      const color = CONFIG.colors.lights[Math.floor(Math.random() * CONFIG.colors.lights.length)];
+      const colorSeed = Math.random();
       const speed = 2 + Math.random() * 3;
-      return { chaosPos, targetPos, color, speed, currentPos: chaosPos.clone(), timeOffset: Math.random() * 100 };
+      return { chaosPos, colorSeed, color: new THREE.Color(), speed, currentPos: chaosPos.clone(), startPos: chaosPos.clone(), timeOffset: Math.random() * 100 };
     });
   }, [count]);
 
-  useFrame((stateObj, delta) => {
-    if (!groupRef.current) return;
-    const isFormed = state === 'FORMED';
+  // 所有彩灯一个 InstancedMesh；闪烁只改 instanceEmissive，不再逐个改材质
+  const material = useMemo(() => patchInstanceEmissive(new THREE.MeshStandardMaterial({ emissive: '#FFFFFF', toneMapped: false })), []);
+  const mesh = useMemo(() => createInstancedLayer(LIGHT_GEOMETRY, material, data.length), [data, material]);
+  useEffect(() => () => disposeInstancedLayer(mesh), [mesh]);
+  useEffect(() => () => material.dispose(), [material]);
+  const dummy = useMemo(() => {
+    const object = new THREE.Object3D();
+    object.scale.setScalar(0.15);
+    return object;
+  }, []);
+
+  useEffect(() => {
+    data.forEach((objData, i) => {
+      objData.color.set(pickColor(palette, objData.colorSeed));
+      mesh.setColorAt(i, objData.color);
+    });
+    mesh.instanceColor!.needsUpdate = true;
+  }, [data, mesh, palette]);
+
+  const { appliedShape, scattering } = useShapeMorph(shape);
+  const targets = useMemo(() => data.map(() => appliedShape.sampleSurface(0.3).position), [data, appliedShape]);
+  // 拼标题时彩灯略靠前，点缀在针叶粒子表面
+  const textTargets = useMemo(() => {
+    const sampler = createTextSampler(text);
+    return sampler ? data.map(() => sampler(0.8)) : targets;
+  }, [data, text, targets]);
+  const layerTarget = scattering ? 'CHAOS' : state;
+  // 拼字途中改了标题，彩灯从当前位置重新飞向新笔画
+  const timeline = useLayerTimeline(layerTarget, layerTarget === 'TEXT' ? textTargets : undefined);
+  const startedId = useRef(-1);
+
+  useFrame((stateObj) => {
+    const current = timeline.current;
     const time = stateObj.clock.elapsedTime;
-    groupRef.current.children.forEach((child, i) => {
-      const objData = data[i];
-      const target = isFormed ? objData.targetPos : objData.chaosPos;
-      objData.currentPos.lerp(target, delta * 2.0);
-      const mesh = child as THREE.Mesh;
-      mesh.position.copy(objData.currentPos);
+    if (startedId.current !== current.id) {
+      startedId.current = current.id;
+      data.forEach(objData => objData.startPos.copy(objData.currentPos));
+    }
+    // 亮度随进度在起止状态之间渐变，CHAOS 下熄灭
+    const litFrom = current.from === 'CHAOS' ? 0 : 1;
+    const litTo = current.to === 'CHAOS' ? 0 : 1;
+    data.forEach((objData, i) => {
+      const target = current.to === 'TEXT' ? textTargets[i] : current.to === 'FORMED' ? targets[i] : objData.chaosPos;
+      const t = layerProgress(current, 'lights', i, data.length);
+      objData.currentPos.lerpVectors(objData.startPos, target, t);
+      dummy.position.copy(objData.currentPos);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
       const intensity = (Math.sin(time * objData.speed + objData.timeOffset) + 1) / 2;
-      if (mesh.material) { (mesh.material as THREE.MeshStandardMaterial).emissiveIntensity = isFormed ? 3 + intensity * 4 : 0; }
+      const lit = MathUtils.lerp(litFrom, litTo, t);
+      setInstanceEmissive(mesh, i, objData.color, lit * (3 + intensity * 4));
     });
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  return <primitive object={mesh} />;
+};
+
+// --- Component: Snowfall ---
+// 雪花整体在顶点着色器里下落、随风漂移并循环，CPU 每帧只更新几个 uniform
+const SNOW = {
+  maxFlakes: 6000,
+  area: 90,          // 水平方向循环范围
+  top: 40,
+  ground: -16.5,     // 地面高度，略低于树底
+  groundRadius: 45,
+  windSpeed: 6,      // 风力为 1 时的水平漂移速度
+  fullCoverSeconds: 90, // 密度为 1 时积雪铺满所需时间
+  meltSeconds: 30,
+  gustMs: 1600,
+  gustStrength: 12,  // 阵风最强时雪花被推开的距离，阵风过后回到原处
+};
+
+type SnowSettings = { enabled: boolean; density: number; wind: number };
+
+const DEFAULT_SNOW: SnowSettings = { enabled: false, density: 0.6, wind: 0.2 };
+
+const SnowMaterial = shaderMaterial(
+  { uTime: 0, uColor: new THREE.Color('#FFFFFF'), uWindOffset: new THREE.Vector2(), uGust: 0, uTop: SNOW.top, uGround: SNOW.ground, uArea: SNOW.area },
+  `uniform float uTime; uniform vec2 uWindOffset; uniform float uGust; uniform float uTop; uniform float uGround; uniform float uArea;
+  attribute float aSpeed; attribute float aRandom;
+  varying float vAlpha;
+  void main() {
+    float span = uTop - uGround;
+    float y = uGround + mod(position.y - uGround - uTime * aSpeed, span);
+    // 越轻的雪花被风吹得越远；阵风沿径向把雪花推开
+    vec2 dir = normalize(position.xz + vec2(0.001));
+    vec2 sway = vec2(sin(uTime * 0.8 + aRandom * 6.28), cos(uTime * 0.6 + aRandom * 6.28)) * 0.6;
+    vec2 xz = position.xz + uWindOffset * (0.6 + aRandom * 0.8) + dir * uGust * (0.5 + aRandom) + sway;
+    xz = mod(xz + uArea * 0.5, uArea) - uArea * 0.5;
+    vec4 mvPosition = modelViewMatrix * vec4(xz.x, y, xz.y, 1.0);
+    gl_PointSize = (30.0 * (0.5 + aRandom)) / -mvPosition.z;
+    gl_Position = projectionMatrix * mvPosition;
+    // 落地前与刚出现时淡入淡出，循环时不突兀
+    vAlpha = smoothstep(0.0, 3.0, y - uGround) * smoothstep(0.0, 3.0, uTop - y);
+  }`,
+  `uniform vec3 uColor; varying float vAlpha;
+  void main() {
+    float r = distance(gl_PointCoord, vec2(0.5)); if (r > 0.5) discard;
+    gl_FragColor = vec4(uColor, (1.0 - r * 2.0) * vAlpha * 0.9);
+  }`
+);
+
+// 积雪：uCover 从 0 到 1，噪声斑块由树下向外逐渐连成一片
+const SnowGroundMaterial = shaderMaterial(
+  { uCover: 0, uColor: new THREE.Color('#FFFFFF'), uRadius: SNOW.groundRadius },
+  `varying vec2 vPos;
+  void main() {
+    vPos = position.xy;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }`,
+  `uniform float uCover; uniform vec3 uColor; uniform float uRadius; varying vec2 vPos;
+  float hash(vec2 p) { return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453); }
+  float noise(vec2 p) {
+    vec2 i = floor(p); vec2 f = fract(p); vec2 u = f * f * (3.0 - 2.0 * f);
+    return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x), mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x), u.y);
+  }
+  void main() {
+    float n = noise(vPos * 0.25) * 0.6 + noise(vPos * 0.9) * 0.4;
+    float radial = length(vPos) / uRadius;
+    float cover = smoothstep(n - 0.08, n + 0.08, uCover * 1.3 - radial * 0.4);
+    float edge = 1.0 - smoothstep(0.8, 1.0, radial);
+    gl_FragColor = vec4(uColor * (0.75 + n * 0.25), cover * edge * 0.95);
+  }`
+);
+extend({ SnowMaterial, SnowGroundMaterial });
+
+const Snowfall = ({ settings, color, machine }: { settings: SnowSettings, color: string, machine: SceneMachine }) => {
+  const materialRef = useRef<any>(null);
+  const groundRef = useRef<any>(null);
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const gustStartRef = useRef(-Infinity);
+
+  const { positions, speeds, randoms } = useMemo(() => {
+    const positions = new Float32Array(SNOW.maxFlakes * 3);
+    const speeds = new Float32Array(SNOW.maxFlakes);
+    const randoms = new Float32Array(SNOW.maxFlakes);
+    for (let i = 0; i < SNOW.maxFlakes; i++) {
+      positions[i * 3] = (Math.random() - 0.5) * SNOW.area;
+      positions[i * 3 + 1] = SNOW.ground + Math.random() * (SNOW.top - SNOW.ground);
+      positions[i * 3 + 2] = (Math.random() - 0.5) * SNOW.area;
+      speeds[i] = 2 + Math.random() * 3;
+      randoms[i] = Math.random();
+    }
+    return { positions, speeds, randoms };
+  }, []);
+
+  // 张开手掌散开时，雪花随之向外吹散
+  useEffect(() => machine.subscribe(event => {
+    if (event.type === 'enter' && event.state === 'CHAOS') gustStartRef.current = performance.now();
+  }), [machine]);
+
+  useEffect(() => {
+    geometryRef.current?.setDrawRange(0, Math.round(SNOW.maxFlakes * settings.density));
+  }, [settings.density]);
+
+  useEffect(() => {
+    materialRef.current?.uColor.set(color);
+    groundRef.current?.uColor.set(color);
+  }, [color]);
+
+  useFrame((rootState, delta) => {
+    if (materialRef.current) {
+      materialRef.current.uTime = rootState.clock.elapsedTime;
+      materialRef.current.uWindOffset.x += settings.wind * SNOW.windSpeed * delta;
+      const t = (performance.now() - gustStartRef.current) / SNOW.gustMs;
+      // 阵风只是临时偏移，结束后归零，雪花仍均匀分布
+      materialRef.current.uGust = t >= 0 && t <= 1 ? Math.sin(Math.PI * t) * SNOW.gustStrength : 0;
+    }
+    if (groundRef.current) {
+      // 下雪时按密度积累，关掉后慢慢融化
+      const rate = settings.enabled ? settings.density / SNOW.fullCoverSeconds : -1 / SNOW.meltSeconds;
+      groundRef.current.uCover = MathUtils.clamp(groundRef.current.uCover + rate * delta, 0, 1);
+    }
   });
 
   return (
-    <group ref={groupRef}>
-      {data.map((obj, i) => ( <mesh key={i} scale={[0.15, 0.15, 0.15]} geometry={geometry}>
-          <meshStandardMaterial color={obj.color} emissive={obj.color} emissiveIntensity={0} toneMapped={false} />
-        </mesh> ))}
+    <group>
+      <points visible={settings.enabled}>
+        <bufferGeometry ref={geometryRef}>
+          <bufferAttribute attach="attributes-position" args={[positions, 3]} />
+          <bufferAttribute attach="attributes-aSpeed" args={[speeds, 1]} />
+          <bufferAttribute attach="attributes-aRandom" args={[randoms, 1]} />
+        </bufferGeometry>
+        {/* @ts-ignore */}
+        <snowMaterial ref={materialRef} transparent depthWrite={false} />
+      </points>
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, SNOW.ground, 0]}>
+        <circleGeometry args={[SNOW.groundRadius, 64]} />
+        {/* @ts-ignore */}
+        <snowGroundMaterial ref={groundRef} transparent depthWrite={false} />
+      </mesh>
     </group>
   );
 };
@@ -669,8 +2286,11 @@ const ParticleEffect = ({ triggerTreeForm, isPhotoOpen, opacity = 1.0 }: { trigg
 
 
 // --- Component: Top Star (No Photo, Pure Gold 3D Star) ---
-const TopStar = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
+const TopStar = ({ state, shape, color }: { state: SceneState, shape: TreeShape, color: string }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const { appliedShape, scattering } = useShapeMorph(shape);
+  const timeline = useLayerTimeline(scattering ? 'CHAOS' : state);
+  const startRef = useRef({ id: -1, scale: 1 });
 
   const starShape = useMemo(() => {
     const shape = new THREE.Shape();
@@ -693,23 +2313,30 @@ const TopStar = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
 
   // 纯金材质
   const goldMaterial = useMemo(() => new THREE.MeshStandardMaterial({
-    color: CONFIG.colors.gold,
-    emissive: CONFIG.colors.gold,
+    color: DEFAULT_THEME.colors.gold,
+    emissive: DEFAULT_THEME.colors.gold,
     emissiveIntensity: 1.5, // 适中亮度，既发光又有质感
     roughness: 0.1,
     metalness: 1.0,
   }), []);
 
+  useEffect(() => {
+    goldMaterial.color.set(color);
+    goldMaterial.emissive.set(color);
+  }, [goldMaterial, color]);
+
   useFrame((_, delta) => {
     if (groupRef.current) {
       groupRef.current.rotation.y += delta * 0.5;
-      const targetScale = state === 'FORMED' ? 1 : 0;
-      groupRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), delta * 3);
+      const current = timeline.current;
+      if (startRef.current.id !== current.id) startRef.current = { id: current.id, scale: groupRef.current.scale.x };
+      const targetScale = current.to === 'FORMED' ? 1 : 0;
+      groupRef.current.scale.setScalar(MathUtils.lerp(startRef.current.scale, targetScale, layerProgress(current, 'star')));
     }
   });
 
   return (
-    <group ref={groupRef} position={[0, CONFIG.tree.height / 2 + 1.8, 0]}>
+    <group ref={groupRef} position={appliedShape.top}>
       <Float speed={2} rotationIntensity={0.2} floatIntensity={0.2}>
         <mesh geometry={starGeometry} material={goldMaterial} />
       </Float>
@@ -719,48 +2346,157 @@ const TopStar = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
 
 
 
+// --- Quality Governor ---
+// 按采样窗口统计平均帧率；自动模式下连续偏低则降档，持续流畅则升档
+const QualityGovernor = ({ auto, tierIndex, onTierChange, onSample }: { auto: boolean, tierIndex: number, onTierChange: (index: number) => void, onSample?: (fps: number) => void }) => {
+  const sampleRef = useRef({ time: 0, frames: 0, slow: 0, fast: 0, holdUntil: 0 });
+
+  // 换档后重建粒子会卡一两帧，从新档位重新计数
+  useEffect(() => {
+    Object.assign(sampleRef.current, { time: 0, frames: 0, slow: 0, fast: 0 });
+  }, [tierIndex, auto]);
+
+  useFrame((rootState, delta) => {
+    // 标签页切回前台时 delta 很大，不计入
+    if (delta > 0.5) return;
+    const sample = sampleRef.current;
+    sample.time += delta;
+    sample.frames++;
+    if (sample.time < QUALITY_GOVERNOR.windowSeconds) return;
+    const fps = sample.frames / sample.time;
+    sample.time = 0;
+    sample.frames = 0;
+    onSample?.(fps);
+    if (!auto) return;
+
+    sample.slow = fps < QUALITY_GOVERNOR.downFps ? sample.slow + 1 : 0;
+    sample.fast = fps > QUALITY_GOVERNOR.upFps ? sample.fast + 1 : 0;
+    const now = rootState.clock.elapsedTime;
+    if (sample.slow >= QUALITY_GOVERNOR.downWindows && tierIndex > 0) {
+      sample.holdUntil = now + QUALITY_GOVERNOR.upHoldSeconds;
+      onTierChange(tierIndex - 1);
+    } else if (sample.fast >= QUALITY_GOVERNOR.upWindows && tierIndex < QUALITY_TIERS.length - 1 && now >= sample.holdUntil) {
+      onTierChange(tierIndex + 1);
+    }
+  });
+  return null;
+};
+
 // --- Main Scene Experience ---
-const Experience = ({ sceneState, rotationSpeed, handPosition, onLightboxStateChange, lightboxOpacity, setLightboxOpacity, photos }: { sceneState: 'CHAOS' | 'FORMED', rotationSpeed: number, handPosition: any, onLightboxStateChange: (isOpen: boolean, photoIndex: number | null) => void, lightboxOpacity: number, setLightboxOpacity: (opacity: number) => void, photos: string[] }) => {
+const Experience = ({ sceneState, treeShape, titleText, theme, snow, quality, rotationSpeed, zoomSpeed, tiltSpeed, photoRequest, onLightboxStateChange, lightboxOpacity, setLightboxOpacity, photos }: { sceneState: SceneState, treeShape: TreeShape, titleText: string, theme: Theme, snow: SnowSettings, quality: QualityTier, rotationSpeed: number, zoomSpeed: number, tiltSpeed: number, photoRequest: PhotoRequest, onLightboxStateChange: (isOpen: boolean, photoIndex: number | null) => void, lightboxOpacity: number, setLightboxOpacity: (opacity: number) => void, photos: PhotoItem[] }) => {
+  const { colors } = theme;
   const controlsRef = useRef<any>(null);
-  const photoGroupRef = useRef<THREE.Group>(null);
+  const photoSlotsRef = useRef<OrnamentSlot[]>([]);
   const [isLightboxOpen, setIsLightboxOpen] = useState(false);
   const [, setLightboxPhotoIndex] = useState<number | null>(null);
-  const hasPinchedRef = useRef(false);
-  const pinchCooldownUntilRef = useRef(0);
+  // 输入设备发来的打开 / 关闭大图请求，按 id 判断是否已处理
+  const handledPhotoRequestRef = useRef(photoRequest.id);
+  const [hoveredOrnament, setHoveredOrnament] = useState<number | null>(null);
   const [fireworkTrigger, setFireworkTrigger] = useState(false);
-  const prevSceneState = useRef(sceneState);
+  const [sceneMachine] = useState(() => createSceneMachine(sceneState));
   const fadeOutTimerRef = useRef<number | null>(null);
   const recentlyViewedPhotos = useRef<number[]>([]); // 记录最近查看过的照片索引
   const MAX_RECENT_HISTORY = 10; // 最多记录10张最近查看的照片
 
+  useEffect(() => sceneMachine.subscribe(event => {
+    if (event.type !== 'enter') return;
+    // 从CHAOS聚合成树时，等星星亮起时放烟花
+    if (event.from === 'CHAOS' && event.state === 'FORMED') {
+      setTimeout(() => {
+        setFireworkTrigger(true);
+        setTimeout(() => setFireworkTrigger(false), 100);
+      }, event.transition.stagger.star ?? 0);
+    }
+  }), [sceneMachine]);
+
   useEffect(() => {
-    // 当从CHAOS变为FORMED时触发烟花
-    if (prevSceneState.current === 'CHAOS' && sceneState === 'FORMED') {
-      setFireworkTrigger(true);
-      setTimeout(() => setFireworkTrigger(false), 100);
+    sceneMachine.go(sceneState);
+  }, [sceneMachine, sceneState]);
+
+  // 大图打开时不保留悬停高亮，也恢复鼠标样式
+  useEffect(() => {
+    document.body.style.cursor = hoveredOrnament !== null && !isLightboxOpen ? 'pointer' : '';
+  }, [hoveredOrnament, isLightboxOpen]);
+  useEffect(() => () => { document.body.style.cursor = ''; }, []);
+
+  const openLightbox = (textureIndex: number) => {
+    // 更新最近查看历史
+    recentlyViewedPhotos.current.push(textureIndex);
+    if (recentlyViewedPhotos.current.length > MAX_RECENT_HISTORY) {
+      recentlyViewedPhotos.current.shift(); // 移除最旧的记录
     }
-    prevSceneState.current = sceneState;
-    pinchCooldownUntilRef.current = Date.now() + 650;
-  }, [sceneState]);
+
+    setIsLightboxOpen(true);
+    setLightboxPhotoIndex(textureIndex);
+    setLightboxOpacity(0); // 从0开始淡入
+    onLightboxStateChange(true, textureIndex);
+
+    // 清除任何待处理的淡出计时器
+    if (fadeOutTimerRef.current) {
+      clearTimeout(fadeOutTimerRef.current);
+      fadeOutTimerRef.current = null;
+    }
+
+    // 淡入动画
+    setTimeout(() => {
+      setLightboxOpacity(1);
+    }, 10);
+  };
+
+  // 关闭 Lightbox (带淡出效果)
+  const closeLightbox = () => {
+    if (!isLightboxOpen || fadeOutTimerRef.current) return;
+    // 开始淡出动画
+    setLightboxOpacity(0);
+
+    // 400ms后真正关闭lightbox
+    fadeOutTimerRef.current = window.setTimeout(() => {
+      setIsLightboxOpen(false);
+      setLightboxPhotoIndex(null);
+      onLightboxStateChange(false, null);
+      fadeOutTimerRef.current = null;
+    }, 400);
+  };
+
+  const handlePhotoClick = (textureIndex: number) => {
+    if (!isLightboxOpen) openLightbox(textureIndex);
+  };
 
   useFrame(({ camera }) => {
     // 旋转控制 - 查看大图时停止旋转
     const effectiveRotationSpeed = isLightboxOpen ? 0 : rotationSpeed;
-    if (controlsRef.current) {
-      controlsRef.current.setAzimuthalAngle(controlsRef.current.getAzimuthalAngle() + effectiveRotationSpeed);
-      controlsRef.current.update();
+    const controls = controlsRef.current;
+    if (controls) {
+      const azimuth = controls.getAzimuthalAngle();
+      // 拼字时把视角缓慢转回正面，保证标题可读
+      const nextAzimuth = sceneState === 'TEXT' ? THREE.MathUtils.lerp(azimuth, 0, 0.05) : azimuth + effectiveRotationSpeed;
+      controls.setAzimuthalAngle(nextAzimuth);
+      // 双手缩放与俯仰，距离与角度仍受 OrbitControls 的上下限约束
+      if (!isLightboxOpen && tiltSpeed !== 0) {
+        controls.setPolarAngle(THREE.MathUtils.clamp(controls.getPolarAngle() + tiltSpeed, controls.minPolarAngle, controls.maxPolarAngle));
+      }
+      if (!isLightboxOpen && zoomSpeed !== 0) {
+        camera.position.sub(controls.target).multiplyScalar(Math.exp(-zoomSpeed)).add(controls.target);
+      }
+      controls.update();
+    }
+
+    if (handledPhotoRequestRef.current === photoRequest.id) return;
+    handledPhotoRequestRef.current = photoRequest.id;
+    if (photoRequest.action === 'close') {
+      closeLightbox();
+      return;
     }
 
-    // 捏合打开照片 - 智能随机选择逻辑
-    if (Date.now() >= pinchCooldownUntilRef.current && handPosition && handPosition.isPinching === true && !isLightboxOpen && !hasPinchedRef.current) {
-      if (photoGroupRef.current) {
+    // 打开照片（捏合 / 回车 / 手柄）- 智能随机选择逻辑；另一只手捏合时在已打开的大图上换一张
+    if (!isLightboxOpen || photoRequest.action === 'next') {
+      if (photoSlotsRef.current.length > 0) {
         // 第一步：找出距离最近的前5张照片
         const photoDistances: Array<{ index: number; distance: number; textureIndex: number }> = [];
 
-        photoGroupRef.current.children.forEach((group, i) => {
-          const distance = camera.position.distanceTo(group.position);
-          const textureIndex = i % photos.length;
-          photoDistances.push({ index: i, distance, textureIndex });
+        photoSlotsRef.current.forEach((slot, i) => {
+          const distance = camera.position.distanceTo(slot.position);
+          photoDistances.push({ index: i, distance, textureIndex: slot.textureIndex });
         });
 
         // 按距离排序，取最近的5张
@@ -772,9 +2508,10 @@ const Experience = ({ sceneState, rotationSpeed, handPosition, onLightboxStateCh
           photo => !recentlyViewedPhotos.current.includes(photo.textureIndex)
         );
 
-        // 如果所有最近的照片都查看过了，就使用所有最近的照片（允许重复）
+        // 如果所有最近的照片都查看过了，就使用所有最近的照片（允许重复），换一张时跳过正在看的
         if (candidatePhotos.length === 0) {
-          candidatePhotos = nearestPhotos;
+          const showing = isLightboxOpen ? recentlyViewedPhotos.current[recentlyViewedPhotos.current.length - 1] : undefined;
+          candidatePhotos = nearestPhotos.length > 1 ? nearestPhotos.filter(photo => photo.textureIndex !== showing) : nearestPhotos;
         }
 
         // 第三步：从候选照片中随机选择一张（带权重，越近权重越高）
@@ -795,274 +2532,649 @@ const Experience = ({ sceneState, rotationSpeed, handPosition, onLightboxStateCh
           }
         }
 
-        const textureIndex = selectedPhoto.textureIndex;
+        // 第四步：打开大图
+        openLightbox(selectedPhoto.textureIndex);
+      }
+    }
+  });
+
+  return (
+    <>
+      <PerspectiveCamera makeDefault position={[0, 8, 60]} fov={45} />
+      {/* 水平旋转与双手缩放 / 俯仰由输入设备的意图驱动，OrbitControls 负责滚轮缩放与自动旋转 */}
+      <OrbitControls ref={controlsRef} enablePan={false} enableRotate={false} enableZoom={true} minDistance={30} maxDistance={120} autoRotate={rotationSpeed === 0 && sceneState === 'FORMED'} autoRotateSpeed={0.3} maxPolarAngle={Math.PI / 1.7} />
+
+      <color attach="background" args={[colors.background]} />
+      <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={1} />
+      {/* <Environment preset="night" background={false} /> */}
+      
+      <ambientLight intensity={0.4} color={colors.ambient} />
+      <pointLight position={[30, 30, 30]} intensity={150} color={colors.warmLight} />
+      <pointLight position={[-30, 10, -30]} intensity={80} color={colors.gold} />
+      <pointLight position={[0, -20, 10]} intensity={50} color={colors.fillLight} />
+      {/* 聚合时额外的聚光灯效果 */}
+      {sceneState === 'FORMED' && (
+        <>
+          {quality.spotLight && <spotLight position={[0, 40, 0]} angle={0.5} penumbra={0.5} intensity={200} color={colors.gold} target-position={[0, 0, 0]} />}
+          <pointLight position={[15, 20, 15]} intensity={100} color={colors.gold} />
+          <pointLight position={[-15, 20, -15]} intensity={100} color={colors.gold} />
+        </>
+      )}
+
+      <group position={[0, 0, 0]}>
+        <Foliage state={sceneState} shape={treeShape} text={titleText} color={colors.emerald} count={quality.counts.foliage} />
+        <Suspense fallback={null}>
+           <PhotoOrnaments state={sceneState} shape={treeShape} colors={colors} count={quality.counts.ornaments} onPhotoClick={handlePhotoClick} onPhotoHover={setHoveredOrnament} slotsRef={photoSlotsRef} hoveredIndex={isLightboxOpen ? null : hoveredOrnament} photos={photos} />
+           <ChristmasElements state={sceneState} shape={treeShape} colors={colors} count={quality.counts.elements} />
+           <FairyLights state={sceneState} shape={treeShape} text={titleText} palette={colors.lights} count={quality.counts.lights} />
+           <TopStar state={sceneState} shape={treeShape} color={colors.gold} />
+        </Suspense>
+        <Sparkles count={quality.sparkles} scale={60} size={10} speed={0.4} opacity={0.6} color={colors.silver} />
+        <Snowfall settings={snow} color={colors.white} machine={sceneMachine} />
+        <ParticleEffect triggerTreeForm={fireworkTrigger} isPhotoOpen={isLightboxOpen} opacity={isLightboxOpen ? lightboxOpacity : 1.0} />
+      </group>
+
+      {/* 低档关闭泛光；中档去掉 mipmap 模糊 */}
+      {quality.bloom === 'off' ? (
+        <EffectComposer>
+          <Vignette eskil={false} offset={0.1} darkness={1.2} />
+        </EffectComposer>
+      ) : (
+        <EffectComposer>
+          <Bloom luminanceThreshold={0.8} luminanceSmoothing={0.1} intensity={1.5} radius={0.5} mipmapBlur={quality.bloom === 'mipmap'} />
+          <Vignette eskil={false} offset={0.1} darkness={1.2} />
+        </EffectComposer>
+      )}
+    </>
+  );
+};
+
+// --- Input Providers ---
+// 所有输入设备都只发出同一组意图，由 App 统一落到场景状态 / 旋转速度 / 大图上；多个设备可以同时工作
+type InputIntent =
+  | { type: 'scatter' }
+  | { type: 'form' }
+  | { type: 'text' }
+  | { type: 'rotate'; speed: number }   // 每帧方位角增量，0 表示停止；各设备的速度相加
+  | { type: 'zoom'; speed: number }     // 每帧镜头距离的对数变化，正数拉近
+  | { type: 'tilt'; speed: number }     // 每帧俯仰角增量，正数镜头压低
+  | { type: 'openPhoto' }
+  | { type: 'nextPhoto' }               // 大图已打开时换一张，否则同 openPhoto
+  | { type: 'closePhoto' };
+
+// 持续量意图：设备发出的是速度而不是一次性动作
+type InputAxis = 'rotate' | 'zoom' | 'tilt';
+const INPUT_AXES: InputAxis[] = ['rotate', 'zoom', 'tilt'];
+
+type InputProviderId = 'keyboard' | 'mouse' | 'touch' | 'gamepad' | 'camera' | 'replay';
+
+// 设备只读的场景信息，例如双击时决定是聚合还是散开
+type InputContext = { sceneState: () => SceneState };
+
+type InputProvider = {
+  id: InputProviderId;
+  // 开始监听并通过 emit 发出意图，返回停止函数
+  start: (emit: (intent: InputIntent) => void, context: InputContext) => () => void;
+};
+
+type InputHub = {
+  register: (provider: InputProvider) => () => void;
+  subscribe: (listener: (intent: InputIntent, source: InputProviderId) => void) => () => void;
+};
+
+// 大图请求：id 递增表示一次新请求
+type PhotoRequest = { id: number; action: 'open' | 'next' | 'close' };
+
+const createInputHub = (context: InputContext): InputHub => {
+  const listeners = new Set<(intent: InputIntent, source: InputProviderId) => void>();
+  const speeds = new Map<InputAxis, Map<InputProviderId, number>>(INPUT_AXES.map(axis => [axis, new Map()]));
+  const totals = new Map<InputAxis, number>(INPUT_AXES.map(axis => [axis, 0]));
+
+  const notify = (intent: InputIntent, source: InputProviderId) => listeners.forEach(listener => listener(intent, source));
+  // 只在合计速度变化时通知，避免手势每帧都触发重渲染
+  const updateAxis = (axis: InputAxis, source: InputProviderId) => {
+    let total = 0;
+    speeds.get(axis)!.forEach(speed => { total += speed; });
+    if (total === totals.get(axis)) return;
+    totals.set(axis, total);
+    notify({ type: axis, speed: total }, source);
+  };
+
+  return {
+    register: provider => {
+      const stop = provider.start(intent => {
+        if ('speed' in intent) {
+          speeds.get(intent.type)!.set(provider.id, intent.speed);
+          updateAxis(intent.type, provider.id);
+        } else {
+          notify(intent, provider.id);
+        }
+      }, context);
+      return () => {
+        stop();
+        INPUT_AXES.forEach(axis => {
+          speeds.get(axis)!.delete(provider.id);
+          updateAxis(axis, provider.id);
+        });
+      };
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+// 正在输入标题等文字时不响应快捷键
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const KEYBOARD_ROTATE_SPEED = 0.02;
+
+// F 聚合、S 散开、T 拼字；左右方向键旋转；回车打开照片，Esc 关闭
+const createKeyboardProvider = (): InputProvider => ({
+  id: 'keyboard',
+  start: emit => {
+    const held = new Set<string>();
+    const emitRotation = () => {
+      const direction = (held.has('ArrowLeft') ? 1 : 0) - (held.has('ArrowRight') ? 1 : 0);
+      emit({ type: 'rotate', speed: direction * KEYBOARD_ROTATE_SPEED });
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        held.add(e.key);
+        emitRotation();
+        return;
+      }
+      if (e.repeat) return;
+      const key = e.key.toLowerCase();
+      if (key === 'f') emit({ type: 'form' });
+      else if (key === 's') emit({ type: 'scatter' });
+      else if (key === 't') emit({ type: 'text' });
+      // 焦点在按钮上时回车是点按钮
+      else if (e.key === 'Enter' && !(e.target instanceof HTMLButtonElement)) emit({ type: 'openPhoto' });
+      else if (e.key === 'Escape') emit({ type: 'closePhoto' });
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (held.delete(e.key)) emitRotation();
+    };
+    // 切走窗口时收不到 keyup
+    const onBlur = () => {
+      held.clear();
+      emitRotation();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  },
+});
+
+const POINTER_INPUT = {
+  dragSpeed: 0.004,     // 每像素拖动对应的方位角
+  wheelSpeed: 0.0003,   // 每单位横向滚动对应的初速度
+  friction: 0.92,       // 松手后的惯性衰减
+  doubleTapMs: 300,
+  tapSlop: 10,          // 位移超过这个像素数就算拖动，不算点按
+};
+
+// 鼠标与触摸共用：水平拖动旋转并带惯性，双击 / 双点在聚合与散开之间切换；鼠标额外支持横向滚轮
+// 点击照片挂件由场景内的射线拾取处理，这里不重复
+const createPointerProvider = (id: 'mouse' | 'touch', target: HTMLElement): InputProvider => ({
+  id,
+  start: (emit, context) => {
+    let dragging: { pointerId: number; x: number; startX: number; startY: number } | null = null;
+    let pendingDx = 0;
+    let velocity = 0;
+    let lastTap = { time: -Infinity, x: 0, y: 0 };
+    let raf = 0;
+
+    // 拖动时每帧把累积位移换成速度，松手后按惯性衰减到 0
+    const tick = () => {
+      if (dragging) {
+        velocity = -pendingDx * POINTER_INPUT.dragSpeed;
+        pendingDx = 0;
+      } else {
+        velocity *= POINTER_INPUT.friction;
+        if (Math.abs(velocity) < 0.0005) velocity = 0;
+      }
+      emit({ type: 'rotate', speed: velocity });
+      raf = velocity !== 0 || dragging ? requestAnimationFrame(tick) : 0;
+    };
+    const ensureTicking = () => {
+      if (!raf) raf = requestAnimationFrame(tick);
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      if (e.pointerType !== id || (id === 'mouse' && e.button !== 0) || dragging) return;
+      dragging = { pointerId: e.pointerId, x: e.clientX, startX: e.clientX, startY: e.clientY };
+      pendingDx = 0;
+      ensureTicking();
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      if (!dragging || e.pointerId !== dragging.pointerId) return;
+      pendingDx += e.clientX - dragging.x;
+      dragging.x = e.clientX;
+    };
+    const onPointerUp = (e: PointerEvent) => {
+      if (!dragging || e.pointerId !== dragging.pointerId) return;
+      const moved = Math.hypot(e.clientX - dragging.startX, e.clientY - dragging.startY);
+      dragging = null;
+      if (moved > POINTER_INPUT.tapSlop || e.type === 'pointercancel') return;
+      const now = performance.now();
+      if (now - lastTap.time < POINTER_INPUT.doubleTapMs && Math.hypot(e.clientX - lastTap.x, e.clientY - lastTap.y) < POINTER_INPUT.tapSlop * 3) {
+        emit({ type: context.sceneState() === 'CHAOS' ? 'form' : 'scatter' });
+        lastTap = { time: -Infinity, x: 0, y: 0 };
+      } else {
+        lastTap = { time: now, x: e.clientX, y: e.clientY };
+      }
+    };
+    // 纵向滚轮留给 OrbitControls 缩放，横向滚轮（或触控板左右滑）用来旋转
+    const onWheel = (e: WheelEvent) => {
+      if (Math.abs(e.deltaX) <= Math.abs(e.deltaY)) return;
+      velocity = MathUtils.clamp(velocity - e.deltaX * POINTER_INPUT.wheelSpeed, -0.08, 0.08);
+      ensureTicking();
+    };
 
-        // 第四步：更新最近查看历史
-        recentlyViewedPhotos.current.push(textureIndex);
-        if (recentlyViewedPhotos.current.length > MAX_RECENT_HISTORY) {
-          recentlyViewedPhotos.current.shift(); // 移除最旧的记录
-        }
+    target.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    window.addEventListener('pointercancel', onPointerUp);
+    if (id === 'mouse') target.addEventListener('wheel', onWheel, { passive: true });
+    return () => {
+      cancelAnimationFrame(raf);
+      target.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('pointercancel', onPointerUp);
+      target.removeEventListener('wheel', onWheel);
+    };
+  },
+});
+
+// 标准手柄布局：左摇杆左右旋转；A 打开照片、B 关闭、X 散开、Y 聚合、RB 拼字
+const GAMEPAD_BUTTON_INTENTS: Array<[number, InputIntent]> = [
+  [0, { type: 'openPhoto' }],
+  [1, { type: 'closePhoto' }],
+  [2, { type: 'scatter' }],
+  [3, { type: 'form' }],
+  [5, { type: 'text' }],
+];
+const GAMEPAD_DEADZONE = 0.15;
+const GAMEPAD_ROTATE_SPEED = 0.03;
+
+// Gamepad API 没有按键事件，接上手柄后每帧轮询，按下沿触发
+const createGamepadProvider = (): InputProvider => ({
+  id: 'gamepad',
+  start: emit => {
+    const pressed = new Set<string>();
+    let raf = 0;
+
+    const poll = () => {
+      const pads = navigator.getGamepads ? navigator.getGamepads().filter((pad): pad is Gamepad => Boolean(pad)) : [];
+      let stick = 0;
+      pads.forEach(pad => {
+        const x = pad.axes[0] ?? 0;
+        if (Math.abs(x) > GAMEPAD_DEADZONE) stick += x;
+        GAMEPAD_BUTTON_INTENTS.forEach(([button, intent]) => {
+          const key = `${pad.index}:${button}`;
+          if (pad.buttons[button]?.pressed) {
+            if (!pressed.has(key)) emit(intent);
+            pressed.add(key);
+          } else {
+            pressed.delete(key);
+          }
+        });
+      });
+      emit({ type: 'rotate', speed: -MathUtils.clamp(stick, -1, 1) * GAMEPAD_ROTATE_SPEED });
+      raf = pads.length > 0 ? requestAnimationFrame(poll) : 0;
+    };
+    const onConnected = () => {
+      if (!raf) raf = requestAnimationFrame(poll);
+    };
 
-        setIsLightboxOpen(true);
-        setLightboxPhotoIndex(textureIndex);
-        setLightboxOpacity(0); // 从0开始淡入
-        onLightboxStateChange(true, textureIndex);
-        hasPinchedRef.current = true;
+    window.addEventListener('gamepadconnected', onConnected);
+    // 页面刷新前已接好的手柄不会再触发 gamepadconnected
+    onConnected();
+    return () => {
+      cancelAnimationFrame(raf);
+      window.removeEventListener('gamepadconnected', onConnected);
+    };
+  },
+});
+
+// --- MediaPipe Assets ---
+// 手势识别的 WASM 与模型按顺序尝试：随构建发布的本地文件（见 vite-plugin-mediapipe-assets.ts）→ CDN
+// 构建时设置 VITE_MEDIAPIPE_WASM_URL / VITE_MEDIAPIPE_MODEL_URL 可插入自定义地址并优先使用
+// CDN 上的版本需与 package.json 中的 @mediapipe/tasks-vision 一致
+const MEDIAPIPE_CDN_VERSION = '0.10.22-rc.20250304';
+const envAssetUrl = (value: unknown) => (typeof value === 'string' && value ? [value.replace(/\/$/, '')] : []);
+const MEDIAPIPE_WASM_SOURCES = [
+  ...envAssetUrl(import.meta.env.VITE_MEDIAPIPE_WASM_URL),
+  asset('mediapipe/wasm'),
+  `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_CDN_VERSION}/wasm`,
+];
+const MEDIAPIPE_MODEL_SOURCES = [
+  ...envAssetUrl(import.meta.env.VITE_MEDIAPIPE_MODEL_URL),
+  asset('mediapipe/gesture_recognizer.task'),
+  'https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task',
+];
 
-        // 清除任何待处理的淡出计时器
-        if (fadeOutTimerRef.current) {
-          clearTimeout(fadeOutTimerRef.current);
-          fadeOutTimerRef.current = null;
-        }
+// runtime = WASM 运行时，model = 手势模型；服务器没给 Content-Length 时 total 为 null
+type GestureLoadProgress = { stage: 'runtime' | 'model'; loaded: number; total: number | null };
+
+const formatLoadProgress = ({ stage, loaded, total }: GestureLoadProgress) =>
+  `${stage === 'runtime' ? 'AI RUNTIME' : 'AI MODEL'} ${total ? `${Math.round((loaded / total) * 100)}%` : formatBytes(loaded)}`;
+
+const fetchWithProgress = async (url: string, onProgress: (loaded: number, total: number | null) => void) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  // 开发服务器找不到文件时会回落到 index.html
+  if (res.headers.get('Content-Type')?.includes('text/html')) throw new Error('NOT FOUND');
+  const total = Number(res.headers.get('Content-Length')) || null;
+  if (!res.body) {
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    onProgress(bytes.length, bytes.length);
+    return bytes;
+  }
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress(loaded, total);
+  }
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
 
-        // 淡入动画
-        setTimeout(() => {
-          setLightboxOpacity(1);
-        }, 10);
-      }
+// 依次尝试各个地址，返回第一个成功的结果；全部失败时抛出最后一个错误
+const loadFirstAvailable = async <T,>(sources: string[], load: (source: string) => Promise<T>) => {
+  let lastError: unknown = null;
+  for (const source of sources) {
+    try {
+      return await load(source);
+    } catch (err) {
+      lastError = err;
+      console.warn(`MediaPipe asset unavailable: ${source}`, err);
     }
+  }
+  throw lastError;
+};
 
-    // 松开手指关闭 Lightbox (带淡出效果) - 需要明确检查isPinching不为true
-    if (!handPosition || handPosition.isPinching !== true) {
-      if (isLightboxOpen && !fadeOutTimerRef.current) {
-        // 开始淡出动画
-        setLightboxOpacity(0);
-
-        // 400ms后真正关闭lightbox
-        fadeOutTimerRef.current = window.setTimeout(() => {
-          setIsLightboxOpen(false);
-          setLightboxPhotoIndex(null);
-          onLightboxStateChange(false, null);
-          fadeOutTimerRef.current = null;
-        }, 400);
-      }
-      hasPinchedRef.current = false;
-    }
+// WASM 由我们自己下载以便报告进度，再以 Blob URL 交给 FilesetResolver 选出的加载脚本
+const loadVisionFileset = (onProgress: (progress: GestureLoadProgress) => void) =>
+  loadFirstAvailable(MEDIAPIPE_WASM_SOURCES, async base => {
+    const fileset = await FilesetResolver.forVisionTasks(base);
+    const wasm = await fetchWithProgress(fileset.wasmBinaryPath, (loaded, total) => onProgress({ stage: 'runtime', loaded, total }));
+    return { ...fileset, wasmBinaryPath: URL.createObjectURL(new Blob([wasm], { type: 'application/wasm' })) };
   });
 
-  return (
-    <>
-      <PerspectiveCamera makeDefault position={[0, 8, 60]} fov={45} />
-      <OrbitControls ref={controlsRef} enablePan={false} enableZoom={true} minDistance={30} maxDistance={120} autoRotate={rotationSpeed === 0 && sceneState === 'FORMED'} autoRotateSpeed={0.3} maxPolarAngle={Math.PI / 1.7} />
-
-      <color attach="background" args={['#000300']} />
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
-      {/* <Environment preset="night" background={false} /> */}
-      
-      <ambientLight intensity={0.4} color="#003311" />
-      <pointLight position={[30, 30, 30]} intensity={150} color={CONFIG.colors.warmLight} />
-      <pointLight position={[-30, 10, -30]} intensity={80} color={CONFIG.colors.gold} />
-      <pointLight position={[0, -20, 10]} intensity={50} color="#ffffff" />
-      {/* 聚合时额外的聚光灯效果 */}
-      {sceneState === 'FORMED' && (
-        <>
-          <spotLight position={[0, 40, 0]} angle={0.5} penumbra={0.5} intensity={200} color={CONFIG.colors.gold} target-position={[0, 0, 0]} castShadow />
-          <pointLight position={[15, 20, 15]} intensity={100} color="#FFD700" />
-          <pointLight position={[-15, 20, -15]} intensity={100} color="#FFD700" />
-        </>
-      )}
-
-      <group position={[0, 0, 0]}>
-        <Foliage state={sceneState} />
-        <Suspense fallback={null}>
-           <PhotoOrnaments state={sceneState} onPhotoClick={() => {}} groupRef={photoGroupRef} hoveredIndex={null} photos={photos} />
-           <ChristmasElements state={sceneState} />
-           <FairyLights state={sceneState} />
-           <TopStar state={sceneState} />
-        </Suspense>
-        <Sparkles count={1000} scale={60} size={10} speed={0.4} opacity={0.6} color={CONFIG.colors.silver} />
-        <ParticleEffect triggerTreeForm={fireworkTrigger} isPhotoOpen={isLightboxOpen} opacity={isLightboxOpen ? lightboxOpacity : 1.0} />
-      </group>
+const loadGestureModel = (onProgress: (progress: GestureLoadProgress) => void) =>
+  loadFirstAvailable(MEDIAPIPE_MODEL_SOURCES, url => fetchWithProgress(url, (loaded, total) => onProgress({ stage: 'model', loaded, total })));
+
+// 摄像头手势识别：MediaPipe 识别手势与捏合，拒绝摄像头权限时只是这一个设备不可用
+const createHandTrackerProvider = ({ video, canvas, isDebug, getThresholds, onStatus, onProgress, onFrame }: {
+  video: HTMLVideoElement;
+  canvas: HTMLCanvasElement;
+  isDebug: () => boolean;
+  getThresholds: () => HandThresholds;
+  onStatus: (status: string) => void;
+  // 下载运行时与模型的进度，加载结束（成功或失败）时为 null
+  onProgress: (progress: GestureLoadProgress | null) => void;
+  // 每帧识别结果，录制手势时使用
+  onFrame?: (frame: HandFrame) => void;
+}): InputProvider => ({
+  id: 'camera',
+  start: emit => {
+    let gestureRecognizer: GestureRecognizer | null = null;
+    let stream: MediaStream | null = null;
+    let requestRef = 0;
+    let stopped = false;
+    let lastRuntimeError = '';
+    const classifier = createHandClassifier(getThresholds);
 
-      <EffectComposer>
-        <Bloom luminanceThreshold={0.8} luminanceSmoothing={0.1} intensity={1.5} radius={0.5} mipmapBlur />
-        <Vignette eskil={false} offset={0.1} darkness={1.2} />
-      </EffectComposer>
-    </>
-  );
-};
+    const predictWebcam = () => {
+      if (stopped || !gestureRecognizer) return;
+      try {
+        if (video.videoWidth > 0) {
+          const now = Date.now();
+          const results = gestureRecognizer.recognizeForVideo(video, now);
+          const debugMode = isDebug();
+          const ctx = canvas.getContext("2d");
+          if (ctx && debugMode) {
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            canvas.width = video.videoWidth; canvas.height = video.videoHeight;
+            if (results.landmarks) for (const landmarks of results.landmarks) {
+              const drawingUtils = new DrawingUtils(ctx);
+              drawingUtils.drawConnectors(landmarks, GestureRecognizer.HAND_CONNECTIONS, { color: "#FFD700", lineWidth: 2 });
+              drawingUtils.drawLandmarks(landmarks, { color: "#FF0000", lineWidth: 1 });
+            }
+          } else if (ctx && !debugMode) ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+          const frame: HandFrame = {
+            t: now,
+            hands: (results.landmarks || []).map((l, i) => ({
+              hand: results.handedness[i]?.[0]?.categoryName || '',
+              gesture: results.gestures[i]?.[0]?.categoryName || '',
+              score: results.gestures[i]?.[0]?.score || 0,
+              landmarks: l.map(({ x, y, z }) => ({ x, y, z })),
+            })).filter(hand => hand.landmarks.length > 0),
+          };
+          onFrame?.(frame);
+          const { intents, recognized } = classifier.step(frame);
+          intents.forEach(emit);
+          if (debugMode && recognized) onStatus(`DETECTED: ${recognized}`);
+          else if (debugMode && frame.hands.length === 0) onStatus("AI READY: NO HAND");
+        }
+      } catch (e: any) {
+        const msg = String(e?.message || e);
+        if (lastRuntimeError !== msg) {
+          lastRuntimeError = msg;
+          onStatus(`ERROR: ${msg}`);
+        }
+        classifier.reset().forEach(emit);
+      }
 
-// --- Gesture Controller ---
-const GestureController = ({ onGesture, onMove, onStatus, debugMode, onHandPosition, isLightboxOpen }: any) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const lastGestureRef = useRef<string>('');
-  const gestureStableCountRef = useRef<number>(0);
-  const pinchStateRef = useRef(false);
-  const pinchChangeStableCountRef = useRef(0);
-  const lastRuntimeErrorRef = useRef<string>('');
+      requestRef = requestAnimationFrame(predictWebcam);
+    };
 
-  useEffect(() => {
-    let gestureRecognizer: GestureRecognizer;
-    let requestRef: number;
+    // 每个数据块都会回调，只在显示的百分比变化时通知，避免整页频繁重渲染
+    let lastProgressLabel = '';
+    const reportProgress = (progress: GestureLoadProgress) => {
+      const label = formatLoadProgress(progress);
+      if (stopped || label === lastProgressLabel) return;
+      lastProgressLabel = label;
+      onProgress(progress);
+      onStatus(`DOWNLOADING ${label}`);
+    };
 
     const setup = async () => {
       onStatus("DOWNLOADING AI...");
+      // 运行时载入后 Blob URL 就不再需要，立即释放，否则每次重试或重新加载都会留下一份几 MB 的副本
+      let wasmBlobUrl = '';
+      const releaseWasm = () => {
+        if (wasmBlobUrl) URL.revokeObjectURL(wasmBlobUrl);
+        wasmBlobUrl = '';
+      };
       try {
-        const vision = await FilesetResolver.forVisionTasks("https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm");
-        gestureRecognizer = await GestureRecognizer.createFromOptions(vision, {
+        const vision = await loadVisionFileset(reportProgress);
+        wasmBlobUrl = vision.wasmBinaryPath;
+        const model = await loadGestureModel(reportProgress);
+        if (stopped) return;
+        onStatus("INITIALIZING AI...");
+        const recognizer = await GestureRecognizer.createFromOptions(vision, {
           baseOptions: {
-            modelAssetPath: "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
+            modelAssetBuffer: model,
             delegate: "GPU"
           },
           runningMode: "VIDEO",
-          numHands: 1
+          // 双手同时出现时用来缩放与俯仰，也让两只手分别捏合
+          numHands: 2
         });
+        releaseWasm();
+        onProgress(null);
+        if (stopped) {
+          recognizer.close();
+          return;
+        }
+        gestureRecognizer = recognizer;
         onStatus("REQUESTING CAMERA...");
         if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-          const stream = await navigator.mediaDevices.getUserMedia({ video: true });
-          if (videoRef.current) {
-            videoRef.current.srcObject = stream;
-            const el = videoRef.current;
-            const safePlay = () => {
-              const p = el.play();
-              if (p && typeof p.then === 'function') p.catch(() => {});
-            };
-            if (el.readyState >= 2) {
-              safePlay();
-            } else {
-              el.onloadedmetadata = () => safePlay();
-            }
-            onStatus("AI READY: SHOW HAND");
-            predictWebcam();
+          const media = await navigator.mediaDevices.getUserMedia({ video: true });
+          if (stopped) {
+            media.getTracks().forEach(track => track.stop());
+            return;
+          }
+          stream = media;
+          video.srcObject = media;
+          const safePlay = () => {
+            const p = video.play();
+            if (p && typeof p.then === 'function') p.catch(() => {});
+          };
+          if (video.readyState >= 2) {
+            safePlay();
+          } else {
+            video.onloadedmetadata = () => safePlay();
           }
+          onStatus("AI READY: SHOW HAND");
+          predictWebcam();
         } else {
             onStatus("ERROR: CAMERA PERMISSION DENIED");
         }
       } catch (err: any) {
-        onStatus(`ERROR: ${err.message || 'MODEL FAILED'}`);
+        onProgress(null);
+        onStatus(`ERROR: ${err?.message || 'MODEL FAILED'}`);
+      } finally {
+        releaseWasm();
       }
     };
+    setup();
 
-    const predictWebcam = () => {
-      if (gestureRecognizer && videoRef.current && canvasRef.current) {
-        try {
-          if (videoRef.current.videoWidth > 0) {
-            const results = gestureRecognizer.recognizeForVideo(videoRef.current, Date.now());
-            const ctx = canvasRef.current.getContext("2d");
-            if (ctx && debugMode) {
-              ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-              canvasRef.current.width = videoRef.current.videoWidth; canvasRef.current.height = videoRef.current.videoHeight;
-              if (results.landmarks) for (const landmarks of results.landmarks) {
-                const drawingUtils = new DrawingUtils(ctx);
-                drawingUtils.drawConnectors(landmarks, GestureRecognizer.HAND_CONNECTIONS, { color: "#FFD700", lineWidth: 2 });
-                drawingUtils.drawLandmarks(landmarks, { color: "#FF0000", lineWidth: 1 });
-              }
-            } else if (ctx && !debugMode) ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-
-            let name = '';
-            let score = 0;
-            if (results.gestures.length > 0) {
-              name = results.gestures[0][0].categoryName;
-              score = results.gestures[0][0].score;
-
-              if (name === lastGestureRef.current) {
-                gestureStableCountRef.current++;
-              } else {
-                lastGestureRef.current = name;
-                gestureStableCountRef.current = 0;
-              }
-
-              if (score > 0.35 && gestureStableCountRef.current >= 2) {
-                if (name === "Open_Palm") onGesture("CHAOS");
-                if (name === "Closed_Fist") onGesture("FORMED");
-                if (debugMode) onStatus(`DETECTED: ${name}`);
-              }
-            }
-
-            const l = results.landmarks?.[0];
-            if (l && l.length > 0) {
-              const speed = (0.5 - l[0].x) * 0.15;
-              onMove(Math.abs(speed) > 0.01 ? speed : 0);
-
-              const indexFingerTip = l[8];
-              const thumbTip = l[4];
-
-              const dx = indexFingerTip.x - thumbTip.x;
-              const dy = indexFingerTip.y - thumbTip.y;
-              const dz = (indexFingerTip.z || 0) - (thumbTip.z || 0);
-              const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
-
-              const wrist = l[0];
-              const palmBase = l[9] || l[5] || l[0];
-              const palmSize = Math.hypot(
-                wrist.x - palmBase.x,
-                wrist.y - palmBase.y,
-                (wrist.z || 0) - (palmBase.z || 0)
-              ) || 1e-6;
-              const opennessTipIds = [8, 12, 16, 20];
-              let tipSum = 0;
-              for (const id of opennessTipIds) {
-                const tip = l[id];
-                tipSum += Math.hypot(
-                  wrist.x - tip.x,
-                  wrist.y - tip.y,
-                  (wrist.z || 0) - (tip.z || 0)
-                );
-              }
-              const openness = (tipSum / opennessTipIds.length) / palmSize;
-              const opennessOk = openness > 1.35 && openness < 2.25;
-
-              const gestureBlocksPinch = name === "Closed_Fist" || name === "Open_Palm";
-              const pinchDownThreshold = 0.072;
-              const pinchUpThreshold = 0.098;
-              const pinchingByDistance = pinchStateRef.current ? distance < pinchUpThreshold : distance < pinchDownThreshold;
-              const scoreOk = name ? score > 0.5 : true;
-              const rawPinch = !gestureBlocksPinch && scoreOk && opennessOk && pinchingByDistance;
-
-              if (gestureBlocksPinch) {
-                pinchStateRef.current = false;
-                pinchChangeStableCountRef.current = 0;
-              } else if (rawPinch === pinchStateRef.current) {
-                pinchChangeStableCountRef.current = 0;
-              } else {
-                pinchChangeStableCountRef.current++;
-                if (pinchChangeStableCountRef.current >= 2) {
-                  pinchStateRef.current = rawPinch;
-                  pinchChangeStableCountRef.current = 0;
-                }
-              }
-
-              onHandPosition({
-                x: indexFingerTip.x,
-                y: indexFingerTip.y,
-                z: indexFingerTip.z || 0,
-                visible: true,
-                gesture: name,
-                isPinching: pinchStateRef.current === true ? true : false
-              });
-            } else {
-              onMove(0);
-              pinchStateRef.current = false;
-              pinchChangeStableCountRef.current = 0;
-              onHandPosition({ visible: false, isPinching: false, x: 0, y: 0, z: 0, gesture: name });
-              if (results.gestures.length === 0) {
-                lastGestureRef.current = '';
-                gestureStableCountRef.current = 0;
-                if (debugMode) onStatus("AI READY: NO HAND");
-              }
-            }
-          }
-        } catch (e: any) {
-          const msg = String(e?.message || e);
-          if (lastRuntimeErrorRef.current !== msg) {
-            lastRuntimeErrorRef.current = msg;
-            onStatus(`ERROR: ${msg}`);
-          }
-          onMove(0);
-          lastGestureRef.current = '';
-          gestureStableCountRef.current = 0;
-          pinchStateRef.current = false;
-          pinchChangeStableCountRef.current = 0;
-          onHandPosition({ visible: false, isPinching: false, x: 0, y: 0, z: 0, gesture: '' });
-        }
-
-        requestRef = requestAnimationFrame(predictWebcam);
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(requestRef);
+      stream?.getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+      gestureRecognizer?.close();
+    };
+  },
+});
+
+// 回放手势录制：按录制时的时间间隔逐帧送入同一个分类器，不需要摄像头
+const createReplayProvider = ({ recording, onStatus, onEnd }: {
+  recording: HandRecording;
+  onStatus: (status: string) => void;
+  onEnd: () => void;
+}): InputProvider => ({
+  id: 'replay',
+  start: emit => {
+    // 用录制时的阈值重放，与命令行回放结果一致
+    const thresholds = recording.thresholds ?? DEFAULT_HAND_THRESHOLDS;
+    const classifier = createHandClassifier(() => thresholds);
+    const startedAt = performance.now();
+    let next = 0;
+    let raf = 0;
+
+    const play = () => {
+      const elapsed = performance.now() - startedAt;
+      while (next < recording.frames.length && recording.frames[next].t <= elapsed) {
+        const { intents, recognized } = classifier.step(fromRecordedFrame(recording.frames[next++]));
+        intents.forEach(emit);
+        if (recognized) onStatus(`REPLAY: ${recognized}`);
+      }
+      if (next < recording.frames.length) {
+        raf = requestAnimationFrame(play);
+        return;
       }
+      raf = 0;
+      classifier.reset().forEach(emit);
+      onStatus('REPLAY FINISHED');
+      onEnd();
     };
-    setup();
-    return () => cancelAnimationFrame(requestRef);
-  }, [onGesture, onMove, onStatus, debugMode, onHandPosition]);
+    onStatus(`REPLAY: ${recording.frames.length} FRAMES`);
+    raf = requestAnimationFrame(play);
+
+    return () => {
+      cancelAnimationFrame(raf);
+      classifier.reset().forEach(emit);
+    };
+  },
+});
+
+// --- Gesture Profiles ---
+// 每个人一份校准后的阈值，保存在本地 IndexedDB；当前使用的档案记在 localStorage
+type GestureProfile = { id: string; name: string; thresholds: HandThresholds; createdAt: number };
+const GESTURE_PROFILE_STORAGE_KEY = 'tree_gesture_profile';
+
+const getGestureProfiles = async (): Promise<GestureProfile[]> => {
+  const db = await openLocalPhotosDb();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(GESTURE_PROFILES_STORE, 'readonly').objectStore(GESTURE_PROFILES_STORE).getAll();
+    req.onsuccess = () => resolve((req.result as GestureProfile[])
+      .flatMap(profile => {
+        const thresholds = normalizeHandThresholds(profile.thresholds);
+        return thresholds ? [{ ...profile, thresholds }] : [];
+      })
+      .sort((a, b) => a.createdAt - b.createdAt));
+    req.onerror = () => reject(req.error);
+  });
+};
+
+const putGestureProfile = async (profile: GestureProfile): Promise<void> => {
+  const db = await openLocalPhotosDb();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(GESTURE_PROFILES_STORE, 'readwrite').objectStore(GESTURE_PROFILES_STORE).put(profile);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+  });
+};
+
+const deleteGestureProfile = async (id: string): Promise<void> => {
+  const db = await openLocalPhotosDb();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(GESTURE_PROFILES_STORE, 'readwrite').objectStore(GESTURE_PROFILES_STORE).delete(id);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+  });
+};
+
+// --- Gesture Controller ---
+// 摄像头与调试画面的 DOM 由组件提供，识别逻辑作为一个输入设备注册到 inputHub
+const GestureController = ({ inputHub, onStatus, onProgress, onFrame, thresholds, debugMode, isLightboxOpen }: { inputHub: InputHub, onStatus: (status: string) => void, onProgress: (progress: GestureLoadProgress | null) => void, onFrame: (frame: HandFrame) => void, thresholds: HandThresholds, debugMode: boolean, isLightboxOpen: boolean }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // 切换调试模式或手势档案不重新加载模型和摄像头
+  const debugModeRef = useRef(debugMode);
+  const thresholdsRef = useRef(thresholds);
+
+  useEffect(() => {
+    debugModeRef.current = debugMode;
+  }, [debugMode]);
+
+  useEffect(() => {
+    thresholdsRef.current = thresholds;
+  }, [thresholds]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return;
+    return inputHub.register(createHandTrackerProvider({ video, canvas, isDebug: () => debugModeRef.current, getThresholds: () => thresholdsRef.current, onStatus, onProgress, onFrame }));
+  }, [inputHub, onStatus, onProgress, onFrame]);
 
   return (
     <>
@@ -1312,17 +3424,18 @@ const ClassicFireworksBackdrop = ({ active, opacity }: { active: boolean; opacit
 };
 
 // --- Linear Style System ---
+// 颜色取自主题的 CSS 变量（见 applyThemeUi），切换主题时无需重新渲染
 const LINEAR_STYLE = {
   glassPanel: {
-    background: 'rgba(20, 20, 20, 0.6)',
+    background: 'var(--ui-panel)',
     backdropFilter: 'blur(12px)',
     border: '1px solid rgba(255, 255, 255, 0.08)',
     boxShadow: '0 8px 32px rgba(0, 0, 0, 0.2)',
   },
   button: {
     background: 'transparent',
-    border: '1px solid rgba(255, 255, 255, 0.2)',
-    color: 'rgba(255, 255, 255, 0.6)',
+    border: '1px solid var(--ui-border)',
+    color: 'var(--ui-text-muted)',
     padding: '4px 8px',
     borderRadius: '4px',
     fontSize: '12px',
@@ -1335,9 +3448,9 @@ const LINEAR_STYLE = {
     fontWeight: 400
   },
   buttonHover: {
-    background: 'rgba(255, 255, 255, 0.1)',
-    borderColor: 'rgba(255, 255, 255, 0.1)',
-    color: '#fff',
+    background: 'var(--ui-hover)',
+    borderColor: 'var(--ui-hover)',
+    color: 'var(--ui-text)',
   },
   modalOverlay: {
     position: 'fixed' as const,
@@ -1351,7 +3464,7 @@ const LINEAR_STYLE = {
     animation: 'fadeIn 0.2s ease-out'
   },
   modalContent: {
-    background: '#161616',
+    background: 'var(--ui-surface)',
     border: '1px solid rgba(255, 255, 255, 0.1)',
     borderRadius: '12px',
     padding: '24px',
@@ -1359,7 +3472,7 @@ const LINEAR_STYLE = {
     maxHeight: '85vh',
     overflowY: 'auto' as const,
     boxShadow: '0 24px 48px rgba(0, 0, 0, 0.5)',
-    color: '#fff',
+    color: 'var(--ui-text)',
     animation: 'scaleIn 0.2s ease-out'
   }
 };
@@ -1375,7 +3488,7 @@ const LinearButton = ({ children, onClick, style, disabled, active }: any) => {
       style={{
         ...LINEAR_STYLE.button,
         ...(hover && !disabled ? LINEAR_STYLE.buttonHover : {}),
-        ...(active ? { background: 'rgba(255, 255, 255, 0.1)', borderColor: 'rgba(255, 255, 255, 0.3)', color: '#fff' } : {}),
+        ...(active ? { background: 'var(--ui-hover)', borderColor: 'rgba(255, 255, 255, 0.3)', color: 'var(--ui-text)' } : {}),
         ...(disabled ? { opacity: 0.5, cursor: 'not-allowed' } : {}),
         ...style
       }}
@@ -1386,14 +3499,17 @@ const LinearButton = ({ children, onClick, style, disabled, active }: any) => {
 };
 
 // --- Component: Editable Title ---
-const EditableTitle = () => {
-  const [title, setTitle] = useState(() => localStorage.getItem('tree_title') || 'Merry Christmas');
+const DEFAULT_TITLE = 'Merry Christmas';
+
+const EditableTitle = ({ onChange }: { onChange?: (title: string) => void }) => {
+  const [title, setTitle] = useState(() => localStorage.getItem('tree_title') || DEFAULT_TITLE);
   const [isEditing, setIsEditing] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     localStorage.setItem('tree_title', title);
-  }, [title]);
+    onChange?.(title);
+  }, [title, onChange]);
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -1412,8 +3528,8 @@ const EditableTitle = () => {
         style={{
           background: 'rgba(0,0,0,0.5)',
           border: 'none',
-          borderBottom: '1px solid #FFD700',
-          color: '#FFD700',
+          borderBottom: '1px solid var(--ui-accent)',
+          color: 'var(--ui-accent)',
           fontSize: '28px',
           fontFamily: 'serif',
           fontWeight: 'bold',
@@ -1431,7 +3547,7 @@ const EditableTitle = () => {
       onClick={() => setIsEditing(true)}
       style={{
         cursor: 'pointer',
-        color: CONFIG.colors.gold,
+        color: 'var(--ui-accent)',
         fontSize: '28px',
         letterSpacing: '3px',
         fontFamily: 'serif',
@@ -1456,8 +3572,17 @@ const GestureGuide = ({ onClose }: { onClose: () => void }) => {
   const gestures = [
     { icon: '🖐️', title: '五指张开', desc: 'Chaos Mode / 粒子散开' },
     { icon: '✊', title: '握拳', desc: 'Form Tree / 聚合成树' },
-    { icon: '👌', title: '捏合 (食指+拇指)', desc: 'View Photo / 查看照片' },
+    { icon: '✌️', title: '比耶', desc: 'Spell Title / 粒子拼出标题' },
+    { icon: '👌', title: '捏合 (食指+拇指)', desc: 'View Photo / 查看照片，另一只手捏合换一张' },
     { icon: '👋', title: '手掌左右移动', desc: 'Rotate / 旋转视角' },
+    { icon: '🙌', title: '双手张合 / 上下移动', desc: 'Zoom & Tilt / 缩放与俯仰' },
+  ];
+  // 没有摄像头时的其它输入方式
+  const otherInputs = [
+    { device: '键盘', desc: 'F 聚合 · S 散开 · T 拼字 · ←/→ 旋转 · 回车看照片 · Esc 关闭' },
+    { device: '鼠标', desc: '左右拖动 / 横向滚轮旋转 · 双击切换聚合与散开 · 点击照片查看' },
+    { device: '触摸', desc: '左右滑动旋转 · 双指缩放 · 双击切换聚合与散开 · 轻点照片查看' },
+    { device: '手柄', desc: '左摇杆旋转 · A 看照片 · B 关闭 · X 散开 · Y 聚合 · RB 拼字' },
   ];
 
   return (
@@ -1480,12 +3605,21 @@ const GestureGuide = ({ onClose }: { onClose: () => void }) => {
               border: '1px solid rgba(255,255,255,0.05)'
             }}>
               <div style={{ fontSize: '32px', marginBottom: '8px' }}>{g.icon}</div>
-              <div style={{ fontWeight: 600, marginBottom: '4px', color: '#FFD700' }}>{g.title}</div>
+              <div style={{ fontWeight: 600, marginBottom: '4px', color: 'var(--ui-accent)' }}>{g.title}</div>
               <div style={{ fontSize: '12px', opacity: 0.7 }}>{g.desc}</div>
             </div>
           ))}
         </div>
 
+        <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '8px 16px', marginBottom: '24px', fontSize: '13px' }}>
+          {otherInputs.map(input => (
+            <Fragment key={input.device}>
+              <div style={{ fontWeight: 600, color: 'var(--ui-accent)' }}>{input.device}</div>
+              <div style={{ opacity: 0.7 }}>{input.desc}</div>
+            </Fragment>
+          ))}
+        </div>
+
         <div style={{ 
           background: 'rgba(255, 215, 0, 0.05)', 
           border: '1px solid rgba(255, 215, 0, 0.1)', 
@@ -1495,7 +3629,7 @@ const GestureGuide = ({ onClose }: { onClose: () => void }) => {
           lineHeight: '1.6',
           color: 'rgba(255, 255, 255, 0.8)'
         }}>
-          <div style={{ fontWeight: 600, color: '#FFD700', marginBottom: '8px' }}>💡 最佳体验贴士：</div>
+          <div style={{ fontWeight: 600, color: 'var(--ui-accent)', marginBottom: '8px' }}>💡 最佳体验贴士：</div>
           <ul style={{ margin: 0, paddingLeft: '20px' }}>
             <li>建议开启 <b>“显示调试”</b> 确认摄像头已正确识别手部骨骼</li>
             <li>手掌请 <b>正对摄像头</b>，保持在画面中央，识别更准确</li>
@@ -1508,23 +3642,582 @@ const GestureGuide = ({ onClose }: { onClose: () => void }) => {
   );
 };
 
+// --- Component: Gesture Calibration ---
+// 依次采集张开手掌、握拳、捏合，每种手型保持约 2 秒，按采到的数据推算阈值
+const CALIBRATION_STEPS: Array<{ pose: CalibrationPose; icon: string; title: string; desc: string }> = [
+  { pose: 'open', icon: '🖐️', title: '张开手掌', desc: '五指自然张开，掌心朝向摄像头' },
+  { pose: 'fist', icon: '✊', title: '握拳', desc: '握紧拳头，保持在画面中央' },
+  { pose: 'pinch', icon: '👌', title: '捏合', desc: '拇指与食指捏紧，其余三指伸直' },
+];
+const CALIBRATION_SAMPLE_MS = 2000;
+const CALIBRATION_MIN_SAMPLES = 15;
+// 超过这个时间仍没采够（没有摄像头或手不在画面里）就放弃本步
+const CALIBRATION_TIMEOUT_MS = 6000;
+
+const HAND_THRESHOLD_LABELS: Record<keyof HandThresholds, string> = {
+  pinchDown: '捏合距离',
+  pinchUp: '松开距离',
+  pinchScore: '捏合置信度',
+  opennessMin: '张开度下限',
+  opennessMax: '张开度上限',
+  minGestureScore: '手势置信度',
+  stableFrames: '防抖帧数',
+};
+
+const EMPTY_CALIBRATION: Record<CalibrationPose, CalibrationSample[]> = { open: [], fist: [], pinch: [] };
+
+const GestureCalibration = ({ subscribeFrames, onSave, onClose }: {
+  subscribeFrames: (listener: (frame: HandFrame) => void) => () => void,
+  onSave: (thresholds: HandThresholds) => void,
+  onClose: () => void,
+}) => {
+  const [step, setStep] = useState(0);
+  const [samples, setSamples] = useState(EMPTY_CALIBRATION);
+  const [collecting, setCollecting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [handCount, setHandCount] = useState(0);
+
+  // 实时显示画面中有几只手，方便确认摄像头已就绪
+  useEffect(() => subscribeFrames(frame => setHandCount(frame.hands.length)), [subscribeFrames]);
+
+  useEffect(() => {
+    if (!collecting) return;
+    const { pose } = CALIBRATION_STEPS[step];
+    const collected: CalibrationSample[] = [];
+    const startedAt = Date.now();
+    let done = false;
+    // 只采画面中恰好一只手的帧
+    const unsubscribe = subscribeFrames(frame => {
+      if (frame.hands.length === 1) collected.push(toCalibrationSample(frame.t, frame.hands[0]));
+    });
+    const timer = setInterval(() => {
+      if (done) return;
+      const elapsed = Date.now() - startedAt;
+      setProgress(Math.min(elapsed / CALIBRATION_SAMPLE_MS, 1));
+      if (elapsed >= CALIBRATION_SAMPLE_MS && collected.length >= CALIBRATION_MIN_SAMPLES) {
+        done = true;
+        setCollecting(false);
+        setSamples(prev => ({ ...prev, [pose]: collected }));
+        setStep(s => s + 1);
+      } else if (elapsed >= CALIBRATION_TIMEOUT_MS) {
+        done = true;
+        setCollecting(false);
+        alert('没有检测到手，请确认摄像头已就绪，并让一只手完整出现在画面中');
+      }
+    }, 100);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [collecting, step, subscribeFrames]);
+
+  const result = useMemo(() => {
+    if (step < CALIBRATION_STEPS.length) return null;
+    try {
+      return { thresholds: deriveHandThresholds(samples) };
+    } catch (err) {
+      return { error: (err as Error).message };
+    }
+  }, [step, samples]);
+
+  const restart = () => {
+    setSamples(EMPTY_CALIBRATION);
+    setStep(0);
+  };
+
+  const current = CALIBRATION_STEPS[step];
+
+  return (
+    <div style={LINEAR_STYLE.modalOverlay} onClick={collecting ? undefined : onClose}>
+      <div style={LINEAR_STYLE.modalContent} onClick={e => e.stopPropagation()}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '20px', borderBottom: '1px solid rgba(255,255,255,0.1)', paddingBottom: '12px' }}>
+          <h3 style={{ margin: 0, fontSize: '18px', fontWeight: 600 }}>手势校准</h3>
+          <span onClick={collecting ? undefined : onClose} style={{ cursor: 'pointer', opacity: 0.6 }}>✕</span>
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '20px', fontSize: '12px' }}>
+          {CALIBRATION_STEPS.map((s, i) => (
+            <div key={s.pose} style={{ flex: 1, padding: '6px 8px', borderRadius: '6px', textAlign: 'center', border: i === step ? '1px solid var(--ui-accent)' : '1px solid rgba(255,255,255,0.08)', color: i < step ? 'var(--ui-accent)' : 'var(--ui-text-muted)' }}>
+              {i < step ? '✓ ' : ''}{s.title}
+            </div>
+          ))}
+        </div>
+
+        {current ? (
+          <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '12px', textAlign: 'center' }}>
+            <div style={{ fontSize: '48px' }}>{current.icon}</div>
+            <div style={{ fontWeight: 600, color: 'var(--ui-accent)' }}>{current.title}</div>
+            <div style={{ fontSize: '13px', opacity: 0.7 }}>{current.desc}</div>
+            <div style={{ fontSize: '12px', color: 'var(--ui-text-muted)' }}>
+              {handCount === 1 ? '已检测到手' : handCount > 1 ? '画面中有多只手，请只举起一只' : '未检测到手'}
+            </div>
+            <div style={{ width: '200px', height: '4px', borderRadius: '2px', background: 'var(--ui-border)', overflow: 'hidden' }}>
+              <div style={{ width: `${Math.round((collecting ? progress : 0) * 100)}%`, height: '100%', background: 'var(--ui-accent)' }} />
+            </div>
+            <LinearButton onClick={() => { setProgress(0); setCollecting(true); }} disabled={collecting} active>
+              {collecting ? '采集中，请保持手型…' : '开始采集'}
+            </LinearButton>
+          </div>
+        ) : result && 'error' in result ? (
+          <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '16px', textAlign: 'center' }}>
+            <div style={{ fontSize: '13px', color: 'var(--ui-text)' }}>{result.error}</div>
+            <LinearButton onClick={restart}>重新校准</LinearButton>
+          </div>
+        ) : result && (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr auto auto', gap: '8px 16px', marginBottom: '24px', fontSize: '13px', fontVariantNumeric: 'tabular-nums' }}>
+              <span style={{ opacity: 0.6 }}>阈值</span>
+              <span style={{ opacity: 0.6 }}>默认</span>
+              <span style={{ opacity: 0.6 }}>校准后</span>
+              {(Object.keys(HAND_THRESHOLD_LABELS) as Array<keyof HandThresholds>).map(key => (
+                <Fragment key={key}>
+                  <span>{HAND_THRESHOLD_LABELS[key]}</span>
+                  <span style={{ opacity: 0.7 }}>{DEFAULT_HAND_THRESHOLDS[key]}</span>
+                  <span style={{ color: 'var(--ui-accent)' }}>{result.thresholds[key]}</span>
+                </Fragment>
+              ))}
+            </div>
+            <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
+              <LinearButton onClick={restart}>重新校准</LinearButton>
+              <LinearButton onClick={() => onSave(result.thresholds)} active>保存为档案</LinearButton>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Component: Gesture Profiles ---
+const GestureProfilePicker = ({ profiles, currentId, onSelect, onDelete, onCalibrate, onClose }: {
+  profiles: GestureProfile[],
+  currentId: string,
+  onSelect: (id: string) => void,
+  onDelete: (id: string) => void,
+  onCalibrate: () => void,
+  onClose: () => void,
+}) => {
+  const options = [{ id: '', name: '默认', createdAt: 0 }, ...profiles];
+
+  return (
+    <div style={LINEAR_STYLE.modalOverlay} onClick={onClose}>
+      <div style={LINEAR_STYLE.modalContent} onClick={e => e.stopPropagation()}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '20px', borderBottom: '1px solid rgba(255,255,255,0.1)', paddingBottom: '12px' }}>
+          <h3 style={{ margin: 0, fontSize: '18px', fontWeight: 600 }}>手势档案</h3>
+          <span onClick={onClose} style={{ cursor: 'pointer', opacity: 0.6 }}>✕</span>
+        </div>
+        <div style={{ fontSize: '13px', opacity: 0.7, marginBottom: '16px' }}>
+          捏合判定与手的大小、离摄像头的距离有关。每位家人可以校准一份自己的档案，档案只保存在当前浏览器中。
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '20px' }}>
+          {options.map(profile => (
+            <div
+              key={profile.id}
+              onClick={() => onSelect(profile.id)}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                padding: '12px',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                background: 'rgba(255,255,255,0.03)',
+                border: profile.id === currentId ? '1px solid var(--ui-accent)' : '1px solid rgba(255,255,255,0.1)'
+              }}
+            >
+              <span style={{ fontWeight: 600, color: profile.id === currentId ? 'var(--ui-accent)' : 'var(--ui-text)' }}>{profile.name}</span>
+              <span style={{ display: 'flex', gap: '12px', fontSize: '12px', opacity: 0.6 }}>
+                {profile.createdAt ? <span>{new Date(profile.createdAt).toLocaleDateString()}</span> : <span>出厂阈值</span>}
+                {profile.id && (
+                  <span
+                    onClick={e => { e.stopPropagation(); if (confirm(`删除手势档案“${profile.name}”？`)) onDelete(profile.id); }}
+                    style={{ cursor: 'pointer' }}
+                  >
+                    删除
+                  </span>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+        <button onClick={onCalibrate} style={{ ...LINEAR_STYLE.button, width: '100%', justifyContent: 'center', padding: '12px' }}>
+          新建校准
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// --- Component: Theme Picker ---
+const ThemePicker = ({ themes, current, onSelect, onImport, onDelete, onClose }: {
+  themes: Theme[],
+  current: Theme,
+  onSelect: (id: string) => void,
+  onImport: (theme: Theme) => void,
+  onDelete: (id: string) => void,
+  onClose: () => void,
+}) => {
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseTheme(JSON.parse(await file.text())));
+    } catch (err) {
+      console.error(err);
+      alert(`主题导入失败：${err instanceof SyntaxError ? '不是有效的 JSON 文件' : (err as Error).message}`);
+    }
+  };
+
+  // 导出当前主题，可作为自定义主题的模板
+  const handleExport = () => {
+    const { id, name, colors, ui } = current;
+    const blob = new Blob([JSON.stringify({ id, name, colors, ui }, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `theme-${id.replace(/^custom:/, '')}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+  };
+
+  return (
+    <div style={LINEAR_STYLE.modalOverlay} onClick={onClose}>
+      <div style={LINEAR_STYLE.modalContent} onClick={e => e.stopPropagation()}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '20px', borderBottom: '1px solid rgba(255,255,255,0.1)', paddingBottom: '12px' }}>
+          <h3 style={{ margin: 0, fontSize: '18px', fontWeight: 600 }}>主题</h3>
+          <span onClick={onClose} style={{ cursor: 'pointer', opacity: 0.6 }}>✕</span>
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginBottom: '20px' }}>
+          {themes.map(theme => (
+            <div
+              key={theme.id}
+              onClick={() => onSelect(theme.id)}
+              style={{
+                background: theme.colors.background,
+                borderRadius: '8px',
+                padding: '12px',
+                cursor: 'pointer',
+                border: theme.id === current.id ? '1px solid var(--ui-accent)' : '1px solid rgba(255,255,255,0.1)'
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                <span style={{ fontWeight: 600, color: theme.ui.accent }}>{theme.name}</span>
+                {theme.id.startsWith('custom:') && (
+                  <span
+                    onClick={e => { e.stopPropagation(); if (confirm(`删除主题“${theme.name}”？`)) onDelete(theme.id); }}
+                    style={{ cursor: 'pointer', opacity: 0.6, fontSize: '12px' }}
+                  >
+                    删除
+                  </span>
+                )}
+              </div>
+              <div style={{ display: 'flex', gap: '4px' }}>
+                {[theme.colors.emerald, theme.colors.gold, ...theme.colors.lights].map((color, i) => (
+                  <span key={i} style={{ width: '14px', height: '14px', borderRadius: '50%', background: color }} />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div style={{ display: 'flex', gap: '12px' }}>
+          <label style={{ ...LINEAR_STYLE.button, flex: 1, justifyContent: 'center', padding: '12px' }}>
+            导入主题 (.json)
+            <input type="file" accept="application/json,.json" onChange={handleImport} style={{ display: 'none' }} />
+          </label>
+          <button onClick={handleExport} style={{ ...LINEAR_STYLE.button, flex: 1, justifyContent: 'center', padding: '12px' }}>
+            导出当前主题
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Component: Photo Meta Caption (Lightbox) ---
+const PhotoMetaCaption = ({ meta }: { meta: PhotoMeta }) => (
+  <div style={{
+    marginTop: '16px',
+    maxWidth: 'min(90vw, 640px)',
+    marginLeft: 'auto',
+    marginRight: 'auto',
+    textAlign: 'center',
+    color: '#fff',
+    textShadow: '0 0 12px rgba(0, 0, 0, 0.9)'
+  }}>
+    {meta.caption && (
+      <div style={{ color: 'var(--ui-accent)', fontFamily: 'serif', fontSize: '22px', fontWeight: 'bold', letterSpacing: '1px' }}>{meta.caption}</div>
+    )}
+    {meta.date && (
+      <div style={{ fontSize: '12px', opacity: 0.7, letterSpacing: '2px', marginTop: '4px' }}>{meta.date}</div>
+    )}
+    {meta.message && (
+      <div style={{ fontSize: '14px', lineHeight: 1.6, opacity: 0.9, marginTop: '8px', whiteSpace: 'pre-wrap' }}>{meta.message}</div>
+    )}
+  </div>
+);
+
+// --- Component: Photo Thumbnail ---
+// 视频没有缩略图，取 0.1 秒处的画面
+const PhotoThumb = ({ photo, alt, style }: { photo: PhotoItem, alt: string, style: React.CSSProperties }) => {
+  if (photo.kind === 'video') {
+    return <video src={`${photo.src}#t=0.1`} muted playsInline preload="metadata" style={style} />;
+  }
+  return <img src={photo.ornament} alt={alt} draggable={false} style={style} />;
+};
+
+// --- Component: Lightbox Video ---
+// 有声播放；浏览器拦截有声自动播放时改为静音播放。onAudibleChange 用于压低背景音乐
+const LightboxVideo = ({ src, style, onAudibleChange }: { src: string, style: React.CSSProperties, onAudibleChange: (audible: boolean) => void }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.muted = false;
+    video.play().catch(() => {
+      video.muted = true;
+      return video.play();
+    }).catch(() => null);
+    return () => onAudibleChange(false);
+  }, [src, onAudibleChange]);
+
+  const report = () => {
+    const video = videoRef.current;
+    onAudibleChange(Boolean(video && !video.paused && !video.muted && video.volume > 0));
+  };
+
+  return (
+    <video
+      ref={videoRef}
+      src={src}
+      loop
+      playsInline
+      onPlay={report}
+      onPause={report}
+      onVolumeChange={report}
+      style={style}
+    />
+  );
+};
+
+// --- Component: Photo Meta Editor ---
+const PhotoMetaEditor = ({ photo, album, onSaved, onCancel }: { photo: PhotoItem; album: string; onSaved: () => void; onCancel: () => void }) => {
+  const [draft, setDraft] = useState<PhotoMeta>(photo.meta || EMPTY_PHOTO_META);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(photo.meta || EMPTY_PHOTO_META);
+  }, [photo]);
+
+  const inputStyle = {
+    background: 'rgba(255,255,255,0.04)',
+    border: '1px solid rgba(255,255,255,0.12)',
+    borderRadius: '6px',
+    color: '#fff',
+    padding: '8px 10px',
+    fontSize: '13px',
+    outline: 'none',
+    width: '100%',
+    boxSizing: 'border-box' as const
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await savePhotoMeta(photo, draft, album);
+      onSaved();
+    } catch (err) {
+      console.error(err);
+      alert('保存说明失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: '16px', padding: '16px', borderRadius: '8px', background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.08)', display: 'flex', gap: '16px' }}>
+      <PhotoThumb photo={photo} alt="selected" style={{ width: '96px', height: '96px', objectFit: 'cover', borderRadius: '6px', flexShrink: 0 }} />
+      <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        <input
+          value={draft.caption}
+          maxLength={80}
+          placeholder="标题 / Caption"
+          onChange={e => setDraft({ ...draft, caption: e.target.value })}
+          style={inputStyle}
+        />
+        <input
+          type="date"
+          value={draft.date}
+          onChange={e => setDraft({ ...draft, date: e.target.value })}
+          style={{ ...inputStyle, colorScheme: 'dark' }}
+        />
+        <textarea
+          value={draft.message}
+          maxLength={500}
+          rows={3}
+          placeholder="想说的话 / Message"
+          onChange={e => setDraft({ ...draft, message: e.target.value })}
+          style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+        />
+        <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+          <LinearButton onClick={onCancel}>取消</LinearButton>
+          <LinearButton onClick={handleSave} disabled={saving} active>
+            {saving ? '保存中...' : '保存说明'}
+          </LinearButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Component: Upload Report ---
+type UploadReportData = { results: UploadResult[]; maxFileSize?: number } | { error: string }
+
+const UPLOAD_REJECT_REASONS: Record<string, string> = {
+  too_large: '文件过大',
+  not_an_image: '不是 JPG / PNG / GIF / WebP 图片或 MP4 / WebM 视频',
+  corrupt_image: '图片已损坏，无法读取'
+};
+
+const formatBytes = (bytes: number) => {
+  const mb = bytes / 1024 / 1024;
+  if (mb >= 1024) return `${(mb / 1024).toFixed(1)} GB`;
+  return mb >= 10 ? `${Math.round(mb)} MB` : `${mb.toFixed(1)} MB`;
+};
+
+const UploadReport = ({ report, onDismiss }: { report: UploadReportData; onDismiss: () => void }) => {
+  const boxStyle = {
+    marginBottom: '16px',
+    padding: '12px 14px',
+    borderRadius: '8px',
+    fontSize: '12px',
+    lineHeight: 1.7,
+    background: 'rgba(255,255,255,0.03)',
+    border: '1px solid rgba(255,255,255,0.08)',
+    color: 'rgba(255,255,255,0.8)',
+    position: 'relative' as const
+  };
+  const dismiss = <span onClick={onDismiss} style={{ position: 'absolute', top: '8px', right: '10px', cursor: 'pointer', opacity: 0.5 }}>✕</span>;
+
+  if ('error' in report) {
+    return <div style={{ ...boxStyle, borderColor: 'rgba(211, 47, 47, 0.4)' }}>{dismiss}上传失败：{report.error}</div>;
+  }
+
+  const accepted = report.results.filter(r => r.status === 'accepted').length;
+  const problems = report.results.filter(r => r.status !== 'accepted');
+  return (
+    <div style={boxStyle}>
+      {dismiss}
+      <div style={{ color: 'var(--ui-accent)' }}>
+        成功 {accepted} 张
+        {problems.length > 0 && ` · 未上传 ${problems.length} 张`}
+      </div>
+      {problems.map((r, i) => (
+        <div key={i} style={{ opacity: 0.75 }}>
+          {r.name}：
+          {r.status === 'duplicate'
+            ? `已存在相同照片（${r.duplicateOf.split('/').pop()}）`
+            : `${UPLOAD_REJECT_REASONS[r.reason] || r.message}${r.reason === 'too_large' && report.maxFileSize ? `，上限 ${formatBytes(report.maxFileSize)}` : ''}`}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// --- Component: Album Switcher ---
+const AlbumSwitcher = ({ album, onSwitch }: { album: string; onSwitch: (album: string) => void }) => {
+  const [albums, setAlbums] = useState<AlbumSummary[]>([]);
+
+  useEffect(() => {
+    fetch(apiUrl('albums', DEFAULT_ALBUM))
+      .then(res => (res.ok ? res.json() : []))
+      .then(list => setAlbums(Array.isArray(list) ? list : []))
+      .catch(() => setAlbums([]));
+  }, [album]);
+
+  // 没有照片服务器时也保留默认相册与当前相册
+  const names = Array.from(new Set([DEFAULT_ALBUM, album, ...albums.map(a => a.name)]));
+  const countOf = (name: string) => albums.find(a => a.name === name)?.count;
+
+  const handleCreate = () => {
+    const name = prompt('新相册名称（字母、数字、中文、- 或 _）')?.trim();
+    if (!name) return;
+    if (!ALBUM_NAME_PATTERN.test(name)) {
+      alert('相册名称不合法');
+      return;
+    }
+    onSwitch(name);
+  };
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', alignItems: 'center', marginBottom: '16px' }}>
+      <span style={{ fontSize: '12px', color: 'rgba(255,255,255,0.5)' }}>相册：</span>
+      {names.map(name => (
+        <LinearButton key={name || '__default'} onClick={() => onSwitch(name)} active={name === album}>
+          {name || '默认'}
+          {countOf(name) !== undefined && <span style={{ opacity: 0.5 }}>{countOf(name)}</span>}
+        </LinearButton>
+      ))}
+      <LinearButton onClick={handleCreate}>＋ 新建相册</LinearButton>
+    </div>
+  );
+};
+
 // --- Component: Photo Manager ---
 const PhotoManager = ({
   photos,
+  album,
+  onSwitchAlbum,
   hideDefaults,
   onSetHideDefaults,
   onClose,
-  onUpdate
+  onUpdate,
+  onReorder,
+  onImported
 }: {
-  photos: string[]
+  photos: PhotoItem[]
+  album: string
+  onSwitchAlbum: (album: string) => void
   hideDefaults: boolean
   onSetHideDefaults: (hide: boolean) => void | Promise<void>
   onClose: () => void
   onUpdate: () => void
+  onReorder: (next: PhotoItem[]) => void
+  onImported: () => void
 }) => {
   const [uploading, setUploading] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
   const [localHintVisible, setLocalHintVisible] = useState(false);
+  const [uploadReport, setUploadReport] = useState<UploadReportData | null>(null);
+  const [transferring, setTransferring] = useState<'export' | 'import' | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editingPhoto = photos.find(p => p.id === editingId) || null;
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<LocalStorageUsage | null>(null);
+
+  // 照片变化后刷新本地存储用量
+  useEffect(() => {
+    getLocalStorageUsage().then(setStorageUsage).catch(() => null);
+  }, [photos]);
+
+  const alertStorageFull = async () => {
+    const usage = await getLocalStorageUsage().catch(() => null);
+    setStorageUsage(usage);
+    alert(`浏览器存储空间不足，照片未保存${usage ? `（已用 ${formatBytes(usage.usage)} / 约 ${formatBytes(usage.quota)}）` : ''}。可以先删除部分本地照片，或改用照片服务器上传。`);
+  };
+
+  const handleDrop = (targetId: string) => {
+    setDragOverId(null);
+    if (!dragId || dragId === targetId) return;
+    const from = photos.findIndex(p => p.id === dragId);
+    const to = photos.findIndex(p => p.id === targetId);
+    if (from < 0 || to < 0) return;
+    const next = [...photos];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onReorder(next);
+  };
 
   const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files?.length) return;
@@ -1533,21 +4226,38 @@ const PhotoManager = ({
     const formData = new FormData();
     files.forEach(file => formData.append('photos', file));
 
+    setUploadReport(null);
+
     try {
       let uploadedToServer = false;
       try {
-        const res = await fetch(`${import.meta.env.BASE_URL}api/upload`, { method: 'POST', body: formData });
-        if (res.ok) {
+        const res = await fetch(apiUrl('upload', album), { method: 'POST', body: formData });
+        // 只有照片服务器会返回 JSON；静态站点的 404 页面等视为无服务器，改存本地
+        if (res.headers.get('content-type')?.includes('application/json')) {
           uploadedToServer = true;
-          await onSetHideDefaults(true);
-          onUpdate();
+          const data = await res.json();
+          if (res.ok && Array.isArray(data.results)) {
+            setUploadReport({ results: data.results, maxFileSize: data.maxFileSize });
+            if (data.count > 0) {
+              await onSetHideDefaults(true);
+              onUpdate();
+            }
+          } else {
+            setUploadReport({ error: data.error || `HTTP ${res.status}` });
+          }
         }
       } catch {
         uploadedToServer = false;
       }
 
       if (!uploadedToServer) {
-        await addLocalPhotos(files);
+        try {
+          await addLocalPhotos(files, album);
+        } catch (err) {
+          if (!isQuotaError(err)) throw err;
+          await alertStorageFull();
+          return;
+        }
         await onSetHideDefaults(true);
         setLocalHintVisible(true);
         onUpdate();
@@ -1561,30 +4271,30 @@ const PhotoManager = ({
     }
   };
 
-  const handleDelete = async (photoUrl: string) => {
+  const handleDelete = async (photo: PhotoItem) => {
     // 检查是否为备份照片（不允许删除）
-    if (photoUrl.includes('backup_photos') || photoUrl.includes('top.jpg')) {
+    if (isDefaultPhoto(photo)) {
       alert('系统默认照片不可删除');
       return;
     }
 
     if (!confirm('确定删除这张照片吗？')) return;
 
-    setDeleting(photoUrl);
+    setDeleting(photo.id);
     try {
-      if (photoUrl.startsWith('data:')) {
-        await deleteLocalPhoto(photoUrl);
+      if (photo.origin === 'local') {
+        await deleteLocalPhoto(photo.id, album);
         onUpdate();
         return;
       }
 
-      const filename = photoUrl.split('?')[0].split('/').pop();
+      const filename = photo.src.split('?')[0].split('/').pop();
       if (!filename) {
         alert('删除失败');
         return;
       }
 
-      const res = await fetch(`${import.meta.env.BASE_URL}api/photos?filename=${filename}`, { method: 'DELETE' });
+      const res = await fetch(apiUrl('photos', album, { filename }), { method: 'DELETE' });
       if (res.ok) {
         onUpdate();
         return;
@@ -1599,14 +4309,62 @@ const PhotoManager = ({
     }
   };
 
+  const handleExport = async () => {
+    setTransferring('export');
+    try {
+      const blob = await exportTreeBundle(photos, hideDefaults);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `christmas-tree${album ? `-${album}` : ''}-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    } catch (err) {
+      console.error(err);
+      alert('导出出错');
+    } finally {
+      setTransferring(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setTransferring('import');
+    try {
+      const { manifest, count, target } = await importTreeBundle(file, album);
+      await onSetHideDefaults(Boolean(manifest.hideDefaults) && count > 0);
+      setLocalHintVisible(target === 'local' && count > 0);
+      onImported();
+      onUpdate();
+      alert(`导入完成：恢复 ${count} 张照片${target === 'local' ? '（保存在本地浏览器）' : ''}`);
+    } catch (err: any) {
+      console.error(err);
+      if (isQuotaError(err)) {
+        await alertStorageFull();
+        return;
+      }
+      alert(`导入失败：${err?.message || err}`);
+    } finally {
+      setTransferring(null);
+    }
+  };
+
   const handleReset = async () => {
-    if (!confirm('确定要重置所有照片吗？这将删除所有上传的照片并恢复默认图片。')) return;
+    const message = album
+      ? `确定要删除相册「${album}」吗？这将删除该相册中所有上传的照片。`
+      : '确定要重置所有照片吗？这将删除所有上传的照片并恢复默认图片。';
+    if (!confirm(message)) return;
     try {
-      await fetch(`${import.meta.env.BASE_URL}api/reset`, { method: 'POST' }).catch(() => null);
-      await resetLocalPhotos();
+      await fetch(apiUrl('reset', album), { method: 'POST' }).catch(() => null);
+      await resetLocalPhotos(album);
       await onSetHideDefaults(false);
       setLocalHintVisible(false);
-      onUpdate();
+      if (album) {
+        onSwitchAlbum(DEFAULT_ALBUM);
+      } else {
+        onUpdate();
+      }
       alert('重置成功');
     } catch (err) {
       console.error(err);
@@ -1621,35 +4379,73 @@ const PhotoManager = ({
           <h3 style={{ margin: 0, fontSize: '18px', fontWeight: 600 }}>图片管理</h3>
           <span onClick={onClose} style={{ cursor: 'pointer', opacity: 0.6 }}>✕</span>
         </div>
+
+        <AlbumSwitcher album={album} onSwitch={(next) => { setEditingId(null); onSwitchAlbum(next); }} />
         
         <div style={{ marginBottom: '12px', display: 'flex', gap: '12px' }}>
-           <label style={{ ...LINEAR_STYLE.button, flex: 1, justifyContent: 'center', padding: '12px', background: 'rgba(255, 215, 0, 0.1)', borderColor: 'rgba(255, 215, 0, 0.3)', color: '#FFD700' }}>
+           <label style={{ ...LINEAR_STYLE.button, flex: 1, justifyContent: 'center', padding: '12px', background: 'rgba(255, 215, 0, 0.1)', borderColor: 'rgba(255, 215, 0, 0.3)', color: 'var(--ui-accent)' }}>
              {uploading ? '正在上传...' : '＋ 上传新照片'}
-             <input type="file" multiple accept="image/*" onChange={handleUpload} style={{ display: 'none' }} disabled={uploading} />
+             <input type="file" multiple accept="image/*,video/mp4,video/webm" onChange={handleUpload} style={{ display: 'none' }} disabled={uploading} />
            </label>
            <button 
              onClick={handleReset}
              style={{ ...LINEAR_STYLE.button, flex: 1, justifyContent: 'center', padding: '12px', borderColor: 'rgba(255, 255, 255, 0.2)' }}
            >
-             ↻ 图片重置
+             {album ? '✕ 删除相册' : '↻ 图片重置'}
            </button>
         </div>
+        {uploadReport && <UploadReport report={uploadReport} onDismiss={() => setUploadReport(null)} />}
         <button
           onClick={() => onSetHideDefaults(!hideDefaults)}
-          style={{ ...LINEAR_STYLE.button, width: '100%', justifyContent: 'center', padding: '12px', marginBottom: '20px', borderColor: 'rgba(255, 255, 255, 0.2)' }}
+          style={{ ...LINEAR_STYLE.button, width: '100%', justifyContent: 'center', padding: '12px', marginBottom: '12px', borderColor: 'rgba(255, 255, 255, 0.2)' }}
         >
           {hideDefaults ? '显示默认照片' : '隐藏默认照片'}
         </button>
+        <div style={{ marginBottom: '20px', display: 'flex', gap: '12px' }}>
+           <button
+             onClick={handleExport}
+             disabled={transferring !== null}
+             title="照片、说明、顺序与标题打包为一个 zip 文件"
+             style={{ ...LINEAR_STYLE.button, flex: 1, justifyContent: 'center', padding: '12px', borderColor: 'rgba(255, 255, 255, 0.2)' }}
+           >
+             {transferring === 'export' ? '正在导出...' : '⇩ 导出整棵树'}
+           </button>
+           <label style={{ ...LINEAR_STYLE.button, flex: 1, justifyContent: 'center', padding: '12px', borderColor: 'rgba(255, 255, 255, 0.2)' }}>
+             {transferring === 'import' ? '正在导入...' : '⇧ 导入'}
+             <input type="file" accept=".zip,application/zip" onChange={handleImport} style={{ display: 'none' }} disabled={transferring !== null} />
+           </label>
+        </div>
 
         <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(100px, 1fr))', gap: '12px', maxHeight: '50vh', overflowY: 'auto' }}>
-          {photos.map((url, i) => {
-             const isBackup = url.includes('backup_photos') || url.includes('top.jpg');
+          {photos.map((photo, i) => {
+             const isBackup = isDefaultPhoto(photo);
              return (
-              <div key={i} style={{ position: 'relative', aspectRatio: '1', borderRadius: '8px', overflow: 'hidden', border: '1px solid rgba(255,255,255,0.1)' }}>
-                <img src={url} alt="thumbnail" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+              <div
+                key={photo.id}
+                draggable
+                onDragStart={(e) => { setDragId(photo.id); e.dataTransfer.effectAllowed = 'move'; }}
+                onDragOver={(e) => { e.preventDefault(); if (dragOverId !== photo.id) setDragOverId(photo.id); }}
+                onDragLeave={() => setDragOverId(prev => (prev === photo.id ? null : prev))}
+                onDrop={(e) => { e.preventDefault(); handleDrop(photo.id); }}
+                onDragEnd={() => { setDragId(null); setDragOverId(null); }}
+                onClick={() => setEditingId(photo.id)}
+                title="拖动排序 / 点击编辑说明"
+                style={{
+                  position: 'relative', aspectRatio: '1', borderRadius: '8px', overflow: 'hidden', cursor: 'grab',
+                  opacity: dragId === photo.id ? 0.4 : 1,
+                  border: dragOverId === photo.id || editingId === photo.id ? '1px solid var(--ui-accent)' : '1px solid rgba(255,255,255,0.1)'
+                }}
+              >
+                <PhotoThumb photo={photo} alt="thumbnail" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                <div style={{ position: 'absolute', top: '4px', left: '4px', display: 'flex', gap: '2px', fontSize: '10px' }}>
+                  <span style={{ background: 'rgba(0,0,0,0.6)', color: 'rgba(255,255,255,0.8)', borderRadius: '4px', padding: '1px 4px' }}>{i + 1}</span>
+                  {hasPhotoMeta(photo.meta) && (
+                    <span style={{ background: 'rgba(0,0,0,0.6)', color: 'var(--ui-accent)', borderRadius: '4px', padding: '1px 4px' }}>✎</span>
+                  )}
+                </div>
                 {!isBackup && (
                   <button 
-                    onClick={() => handleDelete(url)}
+                    onClick={(e) => { e.stopPropagation(); handleDelete(photo); }}
                     disabled={deleting !== null}
                     style={{
                       position: 'absolute', top: '4px', right: '4px',
@@ -1672,39 +4468,275 @@ const PhotoManager = ({
           })}
         </div>
         
+        {editingPhoto && (
+          <PhotoMetaEditor
+            photo={editingPhoto}
+            album={album}
+            onSaved={() => { setEditingId(null); onUpdate(); }}
+            onCancel={() => setEditingId(null)}
+          />
+        )}
+
         <div style={{ marginTop: '20px', fontSize: '12px', color: 'rgba(255,255,255,0.4)', textAlign: 'center' }}>
-          共 {photos.length} 张照片
+          共 {photos.length} 张照片 · 拖动缩略图调整顺序，靠前的照片挂在树顶附近
         </div>
         {localHintVisible && (
           <div style={{ marginTop: '8px', fontSize: '12px', color: 'rgba(255,255,255,0.55)', textAlign: 'center' }}>
             已保存到本地浏览器，仅自己可见
           </div>
         )}
+        {storageUsage && (
+          <div style={{ marginTop: '8px', fontSize: '12px', textAlign: 'center', color: storageUsage.usage / storageUsage.quota > 0.9 ? '#ff6b6b' : 'rgba(255,255,255,0.4)' }}>
+            本地浏览器存储：已用 {formatBytes(storageUsage.usage)} / 约 {formatBytes(storageUsage.quota)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Non-WebGL Fallback ---
+// unsupported = 打开页面时就没有 WebGL2；lost = 运行中上下文丢失，恢复后自动回到 3D 场景
+type WebGLStatus = 'ok' | 'unsupported' | 'lost';
+
+// three 0.169 只支持 WebGL2；检测完立刻释放上下文，不占浏览器的上下文名额
+const detectWebGL2 = () => {
+  try {
+    const gl = document.createElement('canvas').getContext('webgl2');
+    gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    return Boolean(gl);
+  } catch {
+    return false;
+  }
+};
+
+const FALLBACK_SLIDE_MS = 5000;
+
+// 2D 画布绘制的圣诞树剪影：三层树冠 + 树干 + 星星，彩灯按正弦闪烁
+const FallbackTree = ({ colors }: { colors: ThemeColors }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    let width = 0;
+    let height = 0;
+    const resize = () => {
+      const dpr = Math.min(window.devicePixelRatio || 1, 2);
+      width = canvas.clientWidth;
+      height = canvas.clientHeight;
+      canvas.width = Math.floor(width * dpr);
+      canvas.height = Math.floor(height * dpr);
+      context.setTransform(dpr, 0, 0, dpr, 0, 0);
+    };
+    resize();
+    window.addEventListener('resize', resize);
+
+    // 树冠各层：[顶部 y, 底部 y, 底边半宽]，均为相对画布的比例
+    const tiers: Array<[number, number, number]> = [[0.1, 0.42, 0.24], [0.26, 0.64, 0.34], [0.44, 0.86, 0.44]];
+    // 彩灯落在各层三角形内部，位置用比例记录，缩放窗口时不用重新生成
+    const lights = new Array(60).fill(0).map((_, i) => {
+      const [top, bottom, halfWidth] = tiers[i % tiers.length];
+      const t = 0.2 + Math.random() * 0.8;
+      return {
+        x: 0.5 + (Math.random() - 0.5) * 2 * halfWidth * t * 0.9,
+        y: top + (bottom - top) * t,
+        color: pickColor(colors.lights, Math.random()),
+        offset: Math.random() * Math.PI * 2,
+        speed: 1.5 + Math.random() * 2,
+      };
+    });
+
+    const drawStar = (cx: number, cy: number, radius: number) => {
+      context.beginPath();
+      for (let i = 0; i < 10; i++) {
+        const r = i % 2 === 0 ? radius : radius * 0.45;
+        const angle = (i / 10) * Math.PI * 2 - Math.PI / 2;
+        context.lineTo(cx + Math.cos(angle) * r, cy + Math.sin(angle) * r);
+      }
+      context.closePath();
+      context.fill();
+    };
+
+    let raf = 0;
+    const animate = (t: number) => {
+      const time = t / 1000;
+      context.clearRect(0, 0, width, height);
+
+      context.fillStyle = '#3b2314';
+      context.fillRect(width * 0.46, height * 0.86, width * 0.08, height * 0.1);
+
+      tiers.forEach(([top, bottom, halfWidth]) => {
+        const gradient = context.createLinearGradient(0, height * top, 0, height * bottom);
+        gradient.addColorStop(0, colors.emerald);
+        gradient.addColorStop(1, '#02140c');
+        context.fillStyle = gradient;
+        context.beginPath();
+        context.moveTo(width * 0.5, height * top);
+        context.lineTo(width * (0.5 + halfWidth), height * bottom);
+        context.lineTo(width * (0.5 - halfWidth), height * bottom);
+        context.closePath();
+        context.fill();
+      });
+
+      lights.forEach(light => {
+        context.globalAlpha = 0.35 + 0.65 * (0.5 + 0.5 * Math.sin(time * light.speed + light.offset));
+        context.fillStyle = light.color;
+        context.shadowColor = light.color;
+        context.shadowBlur = 8;
+        context.beginPath();
+        context.arc(width * light.x, height * light.y, Math.max(2, width * 0.008), 0, Math.PI * 2);
+        context.fill();
+      });
+      context.globalAlpha = 1;
+
+      context.fillStyle = colors.gold;
+      context.shadowColor = colors.gold;
+      context.shadowBlur = 20 + 8 * Math.sin(time * 2);
+      drawStar(width * 0.5, height * 0.08, width * 0.06);
+      context.shadowBlur = 0;
+
+      raf = requestAnimationFrame(animate);
+    };
+    raf = requestAnimationFrame(animate);
+
+    return () => {
+      cancelAnimationFrame(raf);
+      window.removeEventListener('resize', resize);
+    };
+  }, [colors]);
+
+  return <canvas ref={canvasRef} style={{ width: 'min(42vw, 56vh)', height: 'min(56vw, 75vh)', flexShrink: 0 }} />;
+};
+
+// 照片轮播：与 3D 场景使用同一份 photos 列表，自动翻页，也可手动切换
+const FallbackCarousel = ({ photos }: { photos: PhotoItem[] }) => {
+  const [index, setIndex] = useState(0);
+  const current = photos.length > 0 ? photos[index % photos.length] : null;
+
+  useEffect(() => {
+    if (photos.length < 2) return;
+    const timer = setInterval(() => setIndex(i => (i + 1) % photos.length), FALLBACK_SLIDE_MS);
+    return () => clearInterval(timer);
+  }, [photos.length, index]);
+
+  if (!current) return null;
+
+  const mediaStyle: React.CSSProperties = {
+    width: 'min(40vw, 52vh)',
+    height: 'min(40vw, 52vh)',
+    objectFit: 'cover',
+    borderRadius: '4px',
+    display: 'block',
+  };
+  const step = (delta: number) => setIndex(i => (i % photos.length + delta + photos.length) % photos.length);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '12px' }}>
+      {/* 白色相框，与 3D 场景里的拍立得挂件呼应 */}
+      <div key={current.id} style={{ background: '#fff', padding: '12px 12px 40px', borderRadius: '6px', boxShadow: '0 0 60px rgba(255, 215, 0, 0.35)', animation: 'fadeIn 0.6s ease-out' }}>
+        {current.kind === 'video' ? (
+          <video src={current.lightbox} autoPlay muted loop playsInline style={mediaStyle} />
+        ) : (
+          <img src={current.lightbox} alt={current.meta?.caption || `Photo ${index % photos.length + 1}`} style={mediaStyle} />
+        )}
       </div>
+      {hasPhotoMeta(current.meta) && <PhotoMetaCaption meta={current.meta!} />}
+      {photos.length > 1 && (
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', color: 'var(--ui-text-muted)', fontSize: '12px' }}>
+          <LinearButton onClick={() => step(-1)}>上一张</LinearButton>
+          <span>{index % photos.length + 1} / {photos.length}</span>
+          <LinearButton onClick={() => step(1)}>下一张</LinearButton>
+        </div>
+      )}
     </div>
   );
 };
 
+// 没有 WebGL 时替代 3D 场景：烟花背景 + 树剪影 + 照片轮播；标题、音乐与顶部按钮仍由 App 提供
+const FallbackScene = ({ status, photos, colors }: { status: Exclude<WebGLStatus, 'ok'>, photos: PhotoItem[], colors: ThemeColors }) => (
+  <div style={{ position: 'absolute', inset: 0, zIndex: 2, backgroundColor: colors.background, overflow: 'hidden' }}>
+    <ClassicFireworksBackdrop active={true} opacity={0.6} />
+    <div style={{ position: 'relative', height: '100%', display: 'flex', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'center', gap: '24px 48px', padding: '96px 24px 56px', boxSizing: 'border-box' }}>
+      <FallbackTree colors={colors} />
+      <FallbackCarousel photos={photos} />
+    </div>
+    <div style={{ position: 'absolute', left: 0, right: 0, bottom: '16px', textAlign: 'center', fontSize: '12px', color: 'var(--ui-text-muted)' }}>
+      {status === 'lost' ? '3D 渲染暂时中断，恢复后会自动回到 3D 场景' : '当前浏览器或显卡不支持 WebGL2，已切换为简易模式'}
+    </div>
+  </div>
+);
+
 // --- Component: Upload UI (Old - Deprecated, kept for reference but not used) ---
 // We will replace its usage directly in App
 
 
 // --- App Entry ---
+// 背景音乐音量；大图播放有声视频时压低到 BGM_DUCKED_VOLUME
+const BGM_VOLUME = 0.7;
+const BGM_DUCKED_VOLUME = 0.15;
+
 export default function GrandTreeApp() {
-  const [sceneState, setSceneState] = useState<'CHAOS' | 'FORMED'>('CHAOS');
+  const [sceneState, setSceneState] = useState<SceneState>('CHAOS');
   const [rotationSpeed, setRotationSpeed] = useState(0);
-  const [, setAiStatus] = useState("INITIALIZING...");
+  const [zoomSpeed, setZoomSpeed] = useState(0);
+  const [tiltSpeed, setTiltSpeed] = useState(0);
+  const [aiStatus, setAiStatus] = useState("INITIALIZING...");
+  const [gestureProgress, setGestureProgress] = useState<GestureLoadProgress | null>(null);
   const [debugMode, setDebugMode] = useState(false);
-  const [handPosition, setHandPosition] = useState({ visible: false, x: 0, y: 0, z: 0, gesture: '', isPinching: false });
+  const [webglStatus, setWebglStatus] = useState<WebGLStatus>(() => (detectWebGL2() ? 'ok' : 'unsupported'));
   const [isLightboxOpen, setIsLightboxOpen] = useState(false);
   const [lightboxPhotoIndex, setLightboxPhotoIndex] = useState<number | null>(null);
   const [lightboxOpacity, setLightboxOpacity] = useState(1);
+  // 各输入设备的打开 / 关闭大图请求，由 Experience 走同一套选图与淡入淡出流程
+  const [photoRequest, setPhotoRequest] = useState<PhotoRequest>({ id: 0, action: 'close' });
+  const sceneContainerRef = useRef<HTMLDivElement>(null);
+  const sceneStateRef = useRef(sceneState);
+  const [inputHub] = useState(() => createInputHub({ sceneState: () => sceneStateRef.current }));
+  // 调试用的手势录制 / 回放：录制中为帧数组，否则为 null
+  const recordedHandFramesRef = useRef<HandFrame[] | null>(null);
+  const [isRecordingHand, setIsRecordingHand] = useState(false);
+  const stopHandReplayRef = useRef<(() => void) | null>(null);
+  const [isReplayingHand, setIsReplayingHand] = useState(false);
+  // 校准向导订阅摄像头的每帧识别结果
+  const handFrameListenersRef = useRef(new Set<(frame: HandFrame) => void>());
+  const [gestureProfiles, setGestureProfiles] = useState<GestureProfile[]>([]);
+  const [gestureProfileId, setGestureProfileId] = useState(() => localStorage.getItem(GESTURE_PROFILE_STORAGE_KEY) || '');
+  const [showGestureProfiles, setShowGestureProfiles] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
   const [isMusicPlaying, setIsMusicPlaying] = useState(true); // 默认状态为播放
   const audioRef = useRef<HTMLAudioElement | null>(null);
-  const [photos, setPhotos] = useState<string[]>([]);
+  const duckFadeRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [photos, setPhotos] = useState<PhotoItem[]>([]);
+  const [album, setAlbum] = useState(() => localStorage.getItem('tree_album') || DEFAULT_ALBUM);
+  const [treeShape, setTreeShape] = useState(() => getTreeShape(localStorage.getItem('tree_shape')));
+  const [themeId, setThemeId] = useState(() => localStorage.getItem(THEME_STORAGE_KEY) || DEFAULT_THEME.id);
+  const [customThemes, setCustomThemes] = useState(loadCustomThemes);
+  const [snow, setSnow] = useState<SnowSettings>(() => {
+    try {
+      return { ...DEFAULT_SNOW, ...JSON.parse(localStorage.getItem('tree_snow') || '{}') };
+    } catch {
+      return DEFAULT_SNOW;
+    }
+  });
+  const themes = useMemo(() => [...BUILTIN_THEMES, ...customThemes], [customThemes]);
+  const theme = themes.find(t => t.id === themeId) ?? DEFAULT_THEME;
+  // 画质：auto 时用 QualityGovernor 调整的档位，否则固定为手动选择的档位
+  const [qualityMode, setQualityMode] = useState<QualityMode>(loadQualityMode);
+  const [autoTierIndex, setAutoTierIndex] = useState(QUALITY_TIERS.length - 1);
+  const [measuredFps, setMeasuredFps] = useState<number | null>(null);
+  const qualityTierIndex = qualityMode === 'auto' ? autoTierIndex : QUALITY_TIERS.findIndex(tier => tier.id === qualityMode);
+  const quality = QUALITY_TIERS[qualityTierIndex];
+  // 导入后标题已写入 localStorage，递增 key 让 EditableTitle 重新读取
+  const [titleVersion, setTitleVersion] = useState(0);
+  // 粒子拼字（TEXT 状态）使用的标题，与 EditableTitle 同步
+  const [titleText, setTitleText] = useState(() => localStorage.getItem('tree_title') || DEFAULT_TITLE);
   const [hideDefaults, setHideDefaults] = useState(false);
   const [showPhotoManager, setShowPhotoManager] = useState(false);
   const [showGestureGuide, setShowGestureGuide] = useState(false);
+  const [showThemePicker, setShowThemePicker] = useState(false);
 
   const handleSetHideDefaults = useCallback((hide: boolean) => {
     setHideDefaults(hide);
@@ -1715,34 +4747,132 @@ export default function GrandTreeApp() {
     getHideDefaultsFlag().then(setHideDefaults).catch(() => null);
   }, []);
 
+  // 与 tree_title 一样记在 localStorage 中
+  useEffect(() => {
+    localStorage.setItem('tree_album', album);
+  }, [album]);
+
+  useEffect(() => {
+    localStorage.setItem('tree_shape', treeShape.id);
+  }, [treeShape]);
+
+  useEffect(() => {
+    localStorage.setItem(THEME_STORAGE_KEY, theme.id);
+  }, [theme]);
+
+  useEffect(() => {
+    localStorage.setItem(CUSTOM_THEMES_STORAGE_KEY, JSON.stringify(customThemes));
+  }, [customThemes]);
+
+  useEffect(() => {
+    localStorage.setItem('tree_snow', JSON.stringify(snow));
+  }, [snow]);
+
+  useEffect(() => {
+    localStorage.setItem(QUALITY_STORAGE_KEY, qualityMode);
+  }, [qualityMode]);
+
+  useEffect(() => {
+    localStorage.setItem(GESTURE_PROFILE_STORAGE_KEY, gestureProfileId);
+  }, [gestureProfileId]);
+
+  useEffect(() => {
+    getGestureProfiles().then(setGestureProfiles).catch(err => console.error('Loading gesture profiles failed:', err));
+  }, []);
+
+  // 绘制前写入界面配色，避免首帧闪烁
+  useLayoutEffect(() => {
+    applyThemeUi(theme.ui);
+  }, [theme]);
+
+  // 同 id 的主题重新导入时覆盖旧版本
+  const handleImportTheme = (imported: Theme) => {
+    setCustomThemes(list => [...list.filter(t => t.id !== imported.id), imported]);
+    setThemeId(imported.id);
+  };
+
+  const handleDeleteTheme = (id: string) => {
+    setCustomThemes(list => list.filter(t => t.id !== id));
+  };
+
+  // 依次切换内置树形
+  const cycleTreeShape = () => {
+    setTreeShape(current => TREE_SHAPES[(TREE_SHAPES.indexOf(current) + 1) % TREE_SHAPES.length]);
+  };
+
   const fetchPhotos = useCallback(() => {
     const base = import.meta.env.BASE_URL;
-    const timestamp = Date.now();
 
-    const serverPromise = fetch(`${base}api/photos`)
-      .then(res => res.json())
-      .then(files => (Array.isArray(files) ? files.map(f => `${base}${f}?t=${timestamp}`) : []))
-      .catch(() => []);
+    // 接口不可用（静态部署）时返回 null
+    const serverPromise = fetch(apiUrl('photos', album))
+      .then(res => {
+        if (!res.ok || !res.headers.get('content-type')?.includes('application/json')) return null;
+        return res.json();
+      })
+      .then(files => (Array.isArray(files) ? files.map(f => fromServerEntry(f, base)) : null))
+      .catch(() => null);
+
+    // 有接口时只取备份目录中的默认照片；接口不可用时才读取构建生成的静态清单
+    const loadServerDefaults = () => fetch(apiUrl('photos/defaults', DEFAULT_ALBUM))
+      .then(res => (res.ok ? res.json() : null))
+      .then(files => (Array.isArray(files) ? (files as ServerPhotoEntry[]).map(f => fromServerEntry(f, base)) : null))
+      .catch(() => null);
+    const loadManifest = () => fetch(`${base}${PHOTO_MANIFEST_FILE}`, { cache: 'no-cache' })
+      .then(res => (res.ok ? res.json() as Promise<PhotoManifest> : null))
+      .then(manifest => (manifest && Array.isArray(manifest.defaults) ? manifest : null))
+      .catch(() => null);
+
+    const sourcesPromise = serverPromise.then(async serverPhotos => (serverPhotos
+      ? { serverPhotos, serverDefaults: await loadServerDefaults(), manifest: null }
+      : { serverPhotos: null, serverDefaults: null, manifest: await loadManifest() }));
+
+    // 按 id 去重，保留先出现的一项
+    const uniqueById = (items: PhotoItem[]) => {
+      const seen = new Set<string>();
+      return items.filter(item => {
+        if (!item.src || seen.has(item.id)) return false;
+        seen.add(item.id);
+        return true;
+      });
+    };
+
+    Promise.all([sourcesPromise, getLocalPhotos(album), getLocalPhotoMeta(album), getLocalPhotoOrder(album)])
+      .then(([{ serverPhotos, serverDefaults, manifest }, local, localMeta, order]) => {
+        // 静态清单中的照片随构建发布、只读
+        const fromManifest = (entries: ServerPhotoEntry[] = []) => entries.map(e => fromServerEntry(e, base, 'bundled'));
+
+        // 相册为空时接口会回退返回备份照片，这些照片归入默认照片
+        const albumPhotos = serverPhotos
+          ? serverPhotos.filter(p => !isDefaultPhoto(p))
+          : fromManifest(manifest?.albums[album]);
+        const defaults = serverDefaults ?? (manifest ? fromManifest(manifest.defaults) : fallbackPhotoItems);
 
-    Promise.all([serverPromise, getLocalPhotos()])
-      .then(([serverPaths, local]) => {
-        const userPhotos = Array.from(new Set([...local, ...serverPaths])).filter(Boolean);
+        const userPhotos = uniqueById([...local.map(localPhotoItem), ...albumPhotos]);
         const next = hideDefaults && userPhotos.length > 0
           ? userPhotos
-          : Array.from(new Set([...userPhotos, ...bodyPhotoPaths])).filter(Boolean);
-        setPhotos(next);
+          : uniqueById([...userPhotos, ...(serverPhotos?.filter(isDefaultPhoto) || []), ...defaults]);
+        const withMeta = next.map(p => (p.origin === 'server' ? p : { ...p, meta: localMeta[p.id] || p.meta }));
+        setPhotos(applyPhotoOrder(withMeta, order));
       })
-      .catch(() => setPhotos(bodyPhotoPaths));
-  }, [hideDefaults]);
+      .catch(() => setPhotos(fallbackPhotoItems));
+  }, [hideDefaults, album]);
 
   useEffect(() => {
     fetchPhotos();
   }, [fetchPhotos]);
 
+  const handleReorderPhotos = useCallback((next: PhotoItem[]) => {
+    setPhotos(next);
+    savePhotoOrder(next, album).catch(err => {
+      console.error(err);
+      alert('排序保存失败');
+    });
+  }, [album]);
+
   // 页面加载时自动播放音乐
   useEffect(() => {
     if (audioRef.current) {
-      audioRef.current.volume = 0.7; // 设置音量
+      audioRef.current.volume = BGM_VOLUME; // 设置音量
       const playPromise = audioRef.current.play();
       if (playPromise !== undefined) {
         playPromise
@@ -1757,11 +4887,172 @@ export default function GrandTreeApp() {
     }
   }, []);
 
+  // 大图播放有声视频时把背景音乐渐弱到较低音量，结束后恢复
+  const duckMusic = useCallback((ducked: boolean) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (duckFadeRef.current) clearInterval(duckFadeRef.current);
+    const target = ducked ? BGM_DUCKED_VOLUME : BGM_VOLUME;
+    duckFadeRef.current = setInterval(() => {
+      const next = audio.volume + Math.sign(target - audio.volume) * 0.05;
+      if (Math.abs(target - audio.volume) <= 0.05) {
+        audio.volume = target;
+        if (duckFadeRef.current) clearInterval(duckFadeRef.current);
+        duckFadeRef.current = null;
+        return;
+      }
+      audio.volume = next;
+    }, 30);
+  }, []);
+
+  useEffect(() => () => {
+    if (duckFadeRef.current) clearInterval(duckFadeRef.current);
+  }, []);
+
+  const lightboxMediaStyle: React.CSSProperties = {
+    height: hasPhotoMeta(lightboxPhotoIndex !== null ? photos[lightboxPhotoIndex]?.meta : undefined) ? '62vh' : '75vh',
+    width: 'auto',
+    maxWidth: '90vw',
+    objectFit: 'contain',
+    borderRadius: '8px',
+    boxShadow: '0 0 80px rgba(255, 215, 0, 0.8)'
+  };
+
   const handleLightboxStateChange = (isOpen: boolean, photoIndex: number | null) => {
     setIsLightboxOpen(isOpen);
     setLightboxPhotoIndex(photoIndex);
   };
 
+  // three 自己会在 webglcontextlost 里 preventDefault，浏览器恢复上下文后重新上传所有资源
+  const handleCanvasCreated = useCallback(({ gl }: { gl: THREE.WebGLRenderer }) => {
+    gl.domElement.addEventListener('webglcontextlost', () => setWebglStatus('lost'));
+    gl.domElement.addEventListener('webglcontextrestored', () => setWebglStatus('ok'));
+  }, []);
+
+  const requestPhoto = useCallback((action: PhotoRequest['action']) => {
+    setPhotoRequest(request => ({ id: request.id + 1, action }));
+  }, []);
+
+  useEffect(() => {
+    sceneStateRef.current = sceneState;
+  }, [sceneState]);
+
+  useEffect(() => inputHub.subscribe(intent => {
+    switch (intent.type) {
+      case 'scatter': setSceneState('CHAOS'); break;
+      case 'form': setSceneState('FORMED'); break;
+      case 'text': setSceneState('TEXT'); break;
+      case 'rotate': setRotationSpeed(intent.speed); break;
+      case 'zoom': setZoomSpeed(intent.speed); break;
+      case 'tilt': setTiltSpeed(intent.speed); break;
+      case 'openPhoto': requestPhoto('open'); break;
+      case 'nextPhoto': requestPhoto('next'); break;
+      case 'closePhoto': requestPhoto('close'); break;
+    }
+  }), [inputHub, requestPhoto]);
+
+  // 键盘与手柄始终可用；鼠标 / 触摸监听 3D 场景区域，简易模式下没有场景则不注册
+  const hasScene = webglStatus !== 'unsupported';
+  useEffect(() => {
+    const target = sceneContainerRef.current;
+    const providers = [createKeyboardProvider(), createGamepadProvider()];
+    if (target) providers.push(createPointerProvider('mouse', target), createPointerProvider('touch', target));
+    const stops = providers.map(provider => inputHub.register(provider));
+    return () => stops.forEach(stop => stop());
+  }, [inputHub, hasScene]);
+
+  const handleHandFrame = useCallback((frame: HandFrame) => {
+    recordedHandFramesRef.current?.push(frame);
+    handFrameListenersRef.current.forEach(listener => listener(frame));
+  }, []);
+
+  const subscribeHandFrames = useCallback((listener: (frame: HandFrame) => void) => {
+    handFrameListenersRef.current.add(listener);
+    return () => { handFrameListenersRef.current.delete(listener); };
+  }, []);
+
+  // 已删除的档案回落到默认阈值
+  const gestureProfile = gestureProfiles.find(profile => profile.id === gestureProfileId) ?? null;
+  const handThresholds = gestureProfile?.thresholds ?? DEFAULT_HAND_THRESHOLDS;
+
+  const handleSaveGestureProfile = async (thresholds: HandThresholds) => {
+    const name = prompt('档案名称（例如家人的名字）')?.trim();
+    if (!name) return;
+    const profile: GestureProfile = { id: crypto.randomUUID(), name: name.slice(0, 20), thresholds, createdAt: Date.now() };
+    try {
+      await putGestureProfile(profile);
+      setGestureProfiles(list => [...list, profile]);
+      setGestureProfileId(profile.id);
+      setShowCalibration(false);
+    } catch (err) {
+      console.error(err);
+      alert('保存手势档案失败');
+    }
+  };
+
+  const handleDeleteGestureProfile = async (id: string) => {
+    try {
+      await deleteGestureProfile(id);
+      setGestureProfiles(list => list.filter(profile => profile.id !== id));
+      if (gestureProfileId === id) setGestureProfileId('');
+    } catch (err) {
+      console.error(err);
+      alert('删除手势档案失败');
+    }
+  };
+
+  // 停止录制时把帧数据下载为 JSON，可在页面上回放或交给 npm run replay-hand 做回归检查
+  const toggleHandRecording = () => {
+    const frames = recordedHandFramesRef.current;
+    if (!frames) {
+      recordedHandFramesRef.current = [];
+      setIsRecordingHand(true);
+      return;
+    }
+    recordedHandFramesRef.current = null;
+    setIsRecordingHand(false);
+    if (frames.length === 0) {
+      alert('没有录到手势数据，请确认摄像头已就绪');
+      return;
+    }
+    const recording: HandRecording = {
+      format: HAND_RECORDING_FORMAT,
+      version: HAND_RECORDING_VERSION,
+      recordedAt: new Date().toISOString(),
+      thresholds: handThresholds,
+      frames: frames.map(frame => toRecordedFrame(frame, frames[0].t)),
+    };
+    const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `hand-recording-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+  };
+
+  const stopHandReplay = useCallback(() => {
+    stopHandReplayRef.current?.();
+    stopHandReplayRef.current = null;
+    setIsReplayingHand(false);
+  }, []);
+
+  useEffect(() => stopHandReplay, [stopHandReplay]);
+
+  const handleReplayHand = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const recording = parseHandRecording(JSON.parse(await file.text()));
+      stopHandReplay();
+      stopHandReplayRef.current = inputHub.register(createReplayProvider({ recording, onStatus: setAiStatus, onEnd: stopHandReplay }));
+      setIsReplayingHand(true);
+    } catch (err) {
+      console.error(err);
+      alert(`回放失败：${err instanceof SyntaxError ? '不是有效的 JSON 文件' : (err as Error).message}`);
+    }
+  };
+
   const toggleMusic = () => {
     if (audioRef.current) {
       if (isMusicPlaying) {
@@ -1786,16 +5077,21 @@ export default function GrandTreeApp() {
   };
 
   return (
-    <div style={{ width: '100vw', height: '100vh', backgroundColor: '#000', position: 'relative', overflow: 'hidden' }}>
-      {/* 3D Scene */}
-      <div style={{ width: '100%', height: '100%', position: 'absolute', top: 0, left: 0, zIndex: 1 }}>
-        <Canvas dpr={[1, 2]} gl={{ toneMapping: THREE.ReinhardToneMapping }} shadows>
-            <Experience sceneState={sceneState} rotationSpeed={rotationSpeed} handPosition={handPosition} onLightboxStateChange={handleLightboxStateChange} lightboxOpacity={lightboxOpacity} setLightboxOpacity={setLightboxOpacity} photos={photos} />
-        </Canvas>
-      </div>
-      
+    <div style={{ width: '100vw', height: '100vh', backgroundColor: theme.colors.background, position: 'relative', overflow: 'hidden' }}>
+      {/* 3D Scene；上下文丢失时保留 Canvas 等待恢复，由简易模式盖在上面 */}
+      {webglStatus !== 'unsupported' && (
+        <div ref={sceneContainerRef} style={{ width: '100%', height: '100%', position: 'absolute', top: 0, left: 0, zIndex: 1 }}>
+          <Canvas dpr={[1, quality.dpr]} gl={{ toneMapping: THREE.ReinhardToneMapping }} onCreated={handleCanvasCreated}>
+              {/* 帧率只在调试面板显示，平时不回传避免整页每两秒重渲染 */}
+              <QualityGovernor auto={qualityMode === 'auto'} tierIndex={qualityTierIndex} onTierChange={setAutoTierIndex} onSample={debugMode ? setMeasuredFps : undefined} />
+              <Experience sceneState={sceneState} treeShape={treeShape} titleText={titleText} theme={theme} snow={snow} quality={quality} rotationSpeed={rotationSpeed} zoomSpeed={zoomSpeed} tiltSpeed={tiltSpeed} photoRequest={photoRequest} onLightboxStateChange={handleLightboxStateChange} lightboxOpacity={lightboxOpacity} setLightboxOpacity={setLightboxOpacity} photos={photos} />
+          </Canvas>
+        </div>
+      )}
+      {webglStatus !== 'ok' && <FallbackScene status={webglStatus} photos={photos} colors={theme.colors} />}
+
       {/* Gesture Controller (Invisible/Debug) */}
-      <GestureController onGesture={setSceneState} onMove={setRotationSpeed} onStatus={setAiStatus} debugMode={debugMode} onHandPosition={setHandPosition} isLightboxOpen={isLightboxOpen} />
+      <GestureController inputHub={inputHub} onStatus={setAiStatus} onProgress={setGestureProgress} onFrame={handleHandFrame} thresholds={handThresholds} debugMode={debugMode} isLightboxOpen={isLightboxOpen} />
 
       {/* Top Bar UI */}
       <div style={{ 
@@ -1820,11 +5116,29 @@ export default function GrandTreeApp() {
             <LinearButton onClick={() => setShowPhotoManager(true)}>
               图片上传
             </LinearButton>
+            {webglStatus === 'ok' && (
+              <>
+                <LinearButton onClick={cycleTreeShape}>
+                  树形：{treeShape.label}
+                </LinearButton>
+                <LinearButton onClick={() => setSceneState(state => (state === 'TEXT' ? 'FORMED' : 'TEXT'))} active={sceneState === 'TEXT'}>
+                  {sceneState === 'TEXT' ? '变回圣诞树' : '粒子拼字'}
+                </LinearButton>
+              </>
+            )}
+            <LinearButton onClick={() => setShowThemePicker(true)}>
+              主题：{theme.name}
+            </LinearButton>
+            {webglStatus === 'ok' && (
+              <LinearButton onClick={() => setSnow(s => ({ ...s, enabled: !s.enabled }))} active={snow.enabled}>
+                {snow.enabled ? '停止下雪' : '下雪'}
+              </LinearButton>
+            )}
          </div>
          
          {/* Center: Title */}
          <div style={{ pointerEvents: 'auto' }}>
-            <EditableTitle />
+            <EditableTitle key={titleVersion} onChange={setTitleText} />
          </div>
          
          {/* Right: Controls */}
@@ -1832,32 +5146,123 @@ export default function GrandTreeApp() {
             <LinearButton onClick={() => setShowGestureGuide(true)}>
               手势说明
             </LinearButton>
+            <LinearButton onClick={() => setShowGestureProfiles(true)}>
+              手势档案：{gestureProfile?.name ?? '默认'}
+            </LinearButton>
             <LinearButton onClick={() => setDebugMode(!debugMode)} active={debugMode}>
                {debugMode ? '隐藏调试' : '展示调试'}
             </LinearButton>
          </div>
       </div>
 
+      {/* 下雪时左下角的密度 / 风力调节 */}
+      {webglStatus === 'ok' && snow.enabled && !isLightboxOpen && (
+        <div style={{ ...LINEAR_STYLE.glassPanel, position: 'absolute', left: '24px', bottom: '24px', zIndex: 10, borderRadius: '8px', padding: '12px 16px', fontSize: '12px', color: 'var(--ui-text-muted)', display: 'grid', gridTemplateColumns: 'auto 140px', gap: '8px 12px', alignItems: 'center' }}>
+          <span>雪量</span>
+          <input type="range" min={0.1} max={1} step={0.05} value={snow.density} onChange={e => setSnow(s => ({ ...s, density: Number(e.target.value) }))} />
+          <span>风力</span>
+          <input type="range" min={-1} max={1} step={0.05} value={snow.wind} onChange={e => setSnow(s => ({ ...s, wind: Number(e.target.value) }))} />
+        </div>
+      )}
+
+      {/* 首次加载手势识别时显示下载进度，完成或失败后消失 */}
+      {gestureProgress && !isLightboxOpen && (
+        <div style={{ ...LINEAR_STYLE.glassPanel, position: 'absolute', left: '50%', bottom: '24px', transform: 'translateX(-50%)', zIndex: 10, borderRadius: '8px', padding: '8px 16px', fontSize: '12px', color: 'var(--ui-text-muted)', display: 'flex', gap: '12px', alignItems: 'center', fontVariantNumeric: 'tabular-nums' }}>
+          <span>{gestureProgress.stage === 'runtime' ? '正在加载手势识别运行时' : '正在下载手势模型'}</span>
+          {gestureProgress.total ? (
+            <div style={{ width: '120px', height: '4px', borderRadius: '2px', background: 'var(--ui-border)', overflow: 'hidden' }}>
+              <div style={{ width: `${Math.round((gestureProgress.loaded / gestureProgress.total) * 100)}%`, height: '100%', background: 'var(--ui-accent)' }} />
+            </div>
+          ) : null}
+          <span style={{ color: 'var(--ui-text)' }}>
+            {gestureProgress.total ? `${Math.round((gestureProgress.loaded / gestureProgress.total) * 100)}%` : formatBytes(gestureProgress.loaded)}
+          </span>
+        </div>
+      )}
+
+      {/* 调试模式下显示当前画质档位与帧率，可手动锁定档位 */}
+      {webglStatus === 'ok' && debugMode && !isLightboxOpen && (
+        <div style={{ ...LINEAR_STYLE.glassPanel, position: 'absolute', right: '24px', top: '88px', zIndex: 10, borderRadius: '8px', padding: '12px 16px', fontSize: '12px', color: 'var(--ui-text-muted)', display: 'grid', gridTemplateColumns: 'auto auto', gap: '8px 12px', alignItems: 'center' }}>
+          <span>画质</span>
+          <span style={{ color: 'var(--ui-text)' }}>{quality.label}{qualityMode === 'auto' ? '（自动）' : '（手动）'}</span>
+          <span>帧率</span>
+          <span style={{ color: 'var(--ui-text)', fontVariantNumeric: 'tabular-nums' }}>{measuredFps === null ? '测量中…' : `${Math.round(measuredFps)} FPS`}</span>
+          <span>手势</span>
+          <span style={{ color: 'var(--ui-text)', fontVariantNumeric: 'tabular-nums' }}>{aiStatus}</span>
+          <span>录制</span>
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <LinearButton onClick={toggleHandRecording} active={isRecordingHand}>{isRecordingHand ? '停止并下载' : '录制手势'}</LinearButton>
+            {isReplayingHand ? (
+              <LinearButton onClick={stopHandReplay} active>停止回放</LinearButton>
+            ) : (
+              <label style={LINEAR_STYLE.button}>
+                回放录制
+                <input type="file" accept="application/json,.json" onChange={handleReplayHand} style={{ display: 'none' }} />
+              </label>
+            )}
+          </div>
+          <span>档位</span>
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <LinearButton onClick={() => setQualityMode('auto')} active={qualityMode === 'auto'}>自动</LinearButton>
+            {QUALITY_TIERS.map(tier => (
+              <LinearButton key={tier.id} onClick={() => setQualityMode(tier.id)} active={qualityMode === tier.id}>{tier.label}</LinearButton>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Modals */}
       {showPhotoManager && (
         <PhotoManager
           photos={photos}
+          album={album}
+          onSwitchAlbum={setAlbum}
           hideDefaults={hideDefaults}
           onSetHideDefaults={handleSetHideDefaults}
           onClose={() => setShowPhotoManager(false)}
           onUpdate={fetchPhotos}
+          onReorder={handleReorderPhotos}
+          onImported={() => setTitleVersion(v => v + 1)}
         />
       )}
       {showGestureGuide && <GestureGuide onClose={() => setShowGestureGuide(false)} />}
+      {showGestureProfiles && (
+        <GestureProfilePicker
+          profiles={gestureProfiles}
+          currentId={gestureProfile?.id ?? ''}
+          onSelect={setGestureProfileId}
+          onDelete={handleDeleteGestureProfile}
+          onCalibrate={() => { setShowGestureProfiles(false); setShowCalibration(true); }}
+          onClose={() => setShowGestureProfiles(false)}
+        />
+      )}
+      {showCalibration && (
+        <GestureCalibration
+          subscribeFrames={subscribeHandFrames}
+          onSave={handleSaveGestureProfile}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
+      {showThemePicker && (
+        <ThemePicker
+          themes={themes}
+          current={theme}
+          onSelect={setThemeId}
+          onImport={handleImportTheme}
+          onDelete={handleDeleteTheme}
+          onClose={() => setShowThemePicker(false)}
+        />
+      )}
 
       {/* Lightbox Modal */}
       {isLightboxOpen && lightboxPhotoIndex !== null && (
         <div
+          onClick={() => requestPhoto('close')}
           style={{
             position: 'fixed',
             inset: 0,
             zIndex: 1000,
-            pointerEvents: 'none',
+            cursor: 'pointer',
             opacity: lightboxOpacity,
             transition: 'opacity 0.4s ease-in-out',
             display: 'flex',
@@ -1880,32 +5285,36 @@ export default function GrandTreeApp() {
               animation: 'fadeIn 0.3s ease-in-out'
             }}
           >
-            <img
-              src={photos[lightboxPhotoIndex] || ''}
-              alt={`Photo ${lightboxPhotoIndex + 1}`}
-              style={{
-                height: '75vh',
-                width: 'auto',
-                maxWidth: '90vw',
-                objectFit: 'contain',
-                borderRadius: '8px',
-                boxShadow: '0 0 80px rgba(255, 215, 0, 0.8)'
-              }}
-            />
+            {photos[lightboxPhotoIndex]?.kind === 'video' ? (
+              <LightboxVideo
+                src={photos[lightboxPhotoIndex].lightbox}
+                style={lightboxMediaStyle}
+                onAudibleChange={duckMusic}
+              />
+            ) : (
+              <img
+                src={photos[lightboxPhotoIndex]?.lightbox || ''}
+                alt={`Photo ${lightboxPhotoIndex + 1}`}
+                style={lightboxMediaStyle}
+              />
+            )}
+            {hasPhotoMeta(photos[lightboxPhotoIndex]?.meta) && (
+              <PhotoMetaCaption meta={photos[lightboxPhotoIndex].meta!} />
+            )}
             {/* 提示文字 */}
             <div style={{
               position: 'absolute',
               bottom: '-40px',
               left: '50%',
               transform: 'translateX(-50%)',
-              color: CONFIG.colors.gold,
+              color: 'var(--ui-accent)',
               fontSize: '14px',
               letterSpacing: '2px',
               textAlign: 'center',
               whiteSpace: 'nowrap',
               textShadow: '0 0 10px rgba(255, 215, 0, 0.5)'
             }}>
-              松开手指关闭 / Release to close
+              松开手指、点击或按 Esc 关闭 / Release, click or Esc to close
             </div>
           </div>
         </div>
@@ -0,0 +1,384 @@
+// 手势分类：把每帧的识别结果（手势名、置信度、21 个关键点）换成输入意图。
+// 摄像头实时识别与录制回放共用这里的逻辑，不依赖 DOM，可在 Node 中逐帧重放做回归检查。
+
+export type HandLandmark = { x: number; y: number; z: number };
+
+// hand 为 MediaPipe 给出的左右手标签，用来区分两只手各自的捏合状态
+export type HandObservation = { hand: string; gesture: string; score: number; landmarks: HandLandmark[] };
+
+// t 为毫秒时间戳，只用来计算间隔；hands 为空表示这一帧没有识别到手
+export type HandFrame = { t: number; hands: HandObservation[] };
+
+export type HandIntent =
+  | { type: 'scatter' }
+  | { type: 'form' }
+  | { type: 'text' }
+  | { type: 'rotate'; speed: number }
+  | { type: 'zoom'; speed: number }
+  | { type: 'tilt'; speed: number }
+  | { type: 'openPhoto' }
+  | { type: 'nextPhoto' }
+  | { type: 'closePhoto' };
+
+export const HAND_RECORDING_FORMAT = 'christmas-tree-hand-recording';
+export const HAND_RECORDING_VERSION = 2;
+
+type RecordedPoint = [number, number, number];
+
+// 捏合与手势判定的阈值，可按每个人的手校准（见 deriveHandThresholds）
+export type HandThresholds = {
+  pinchDown: number;        // 拇指与食指指尖距离低于它开始捏合
+  pinchUp: number;          // 捏合中距离超过它才算松开
+  pinchScore: number;       // 捏合时模型给出的手势置信度需高于它，过低多为误识别
+  opennessMin: number;      // 指尖到手腕平均距离 / 手掌长度，低于它视为握拳，不算捏合
+  opennessMax: number;
+  minGestureScore: number;  // 张开 / 握拳 / 比耶的最低置信度
+  stableFrames: number;     // 手势与捏合变化需要连续保持的帧数
+};
+
+export const DEFAULT_HAND_THRESHOLDS: HandThresholds = {
+  pinchDown: 0.072,
+  pinchUp: 0.098,
+  pinchScore: 0.5,
+  opennessMin: 1.35,
+  opennessMax: 2.25,
+  minGestureScore: 0.35,
+  stableFrames: 2,
+};
+
+// 录制文件中关键点存为 [x, y, z] 数组，比对象小一半左右；thresholds 为录制时使用的阈值，回放时沿用
+export type HandRecording = {
+  format: typeof HAND_RECORDING_FORMAT;
+  version: number;
+  recordedAt: string;
+  thresholds?: HandThresholds;
+  frames: Array<{ t: number; hands: Array<{ hand: string; gesture: string; score: number; landmarks: RecordedPoint[] }> }>;
+};
+
+// 刚切换完状态时手型还在变化，这段时间内不把捏合当作打开照片
+const PINCH_COOLDOWN_MS = 650;
+
+// 双手：两掌心距离相对刚举起双手时的比例控制缩放，两手平均高度相对刚举起双手时的上下移动控制俯仰
+const TWO_HAND = {
+  zoomDeadzone: 0.15,   // 距离比例的对数
+  zoomGain: 0.025,
+  tiltDeadzone: 0.08,   // 画面高度的比例
+  tiltGain: 0.05,
+};
+
+const GESTURE_INTENTS: Record<string, HandIntent> = {
+  Open_Palm: { type: 'scatter' },
+  Closed_Fist: { type: 'form' },
+  Victory: { type: 'text' },
+};
+
+type HandAxis = 'rotate' | 'zoom' | 'tilt';
+
+export type HandClassifier = {
+  // recognized 为本帧首次稳定识别出的手势名，供调试状态显示
+  step: (frame: HandFrame) => { intents: HandIntent[]; recognized: string | null };
+  // 识别出错或停止时调用：停止旋转与缩放，捏合打开的照片随之关闭
+  reset: () => HandIntent[];
+};
+
+// 拇指与食指指尖距离，以及手指张开程度（指尖到手腕平均距离 / 手掌长度）
+export const measureHand = (l: HandLandmark[]) => {
+  const indexFingerTip = l[8];
+  const thumbTip = l[4];
+
+  const dx = indexFingerTip.x - thumbTip.x;
+  const dy = indexFingerTip.y - thumbTip.y;
+  const dz = (indexFingerTip.z || 0) - (thumbTip.z || 0);
+  const pinchDistance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+  const wrist = l[0];
+  const palmBase = l[9] || l[5] || l[0];
+  const palmSize = Math.hypot(
+    wrist.x - palmBase.x,
+    wrist.y - palmBase.y,
+    (wrist.z || 0) - (palmBase.z || 0)
+  ) || 1e-6;
+  const opennessTipIds = [8, 12, 16, 20];
+  let tipSum = 0;
+  for (const id of opennessTipIds) {
+    const tip = l[id];
+    tipSum += Math.hypot(
+      wrist.x - tip.x,
+      wrist.y - tip.y,
+      (wrist.z || 0) - (tip.z || 0)
+    );
+  }
+  return { pinchDistance, openness: (tipSum / opennessTipIds.length) / palmSize };
+};
+
+// 手势判为张开、握拳、比耶时不算捏合；否则按拇指与食指指尖距离判断，带滞回避免在阈值附近抖动
+const detectPinch = ({ gesture, score, landmarks }: HandObservation, pinching: boolean, th: HandThresholds) => {
+  if (gesture === "Closed_Fist" || gesture === "Open_Palm" || gesture === "Victory") return null;
+
+  const { pinchDistance, openness } = measureHand(landmarks);
+  const opennessOk = openness > th.opennessMin && openness < th.opennessMax;
+  const pinchingByDistance = pinching ? pinchDistance < th.pinchUp : pinchDistance < th.pinchDown;
+  const scoreOk = gesture ? score > th.pinchScore : true;
+  return scoreOk && opennessOk && pinchingByDistance;
+};
+
+// 两只手标签相同（识别偶尔会出错）时按顺序区分
+const handKeys = (hands: HandObservation[]) =>
+  hands.map((h, i) => (hands.findIndex(other => other.hand === h.hand) === i ? h.hand : `${h.hand}#${i}`));
+
+const palmCenter = (l: HandLandmark[]) => l[9] || l[0];
+
+// 阈值每帧读取一次，切换手势档案时不需要重建分类器
+export const createHandClassifier = (getThresholds: () => HandThresholds = () => DEFAULT_HAND_THRESHOLDS): HandClassifier => {
+  let lastGesture = '';
+  let gestureStableCount = 0;
+  let emittedGesture = '';
+  // 每只手各自的捏合状态；holding 为当前捏着照片的手
+  const pinches = new Map<string, { pinching: boolean; changeStableCount: number }>();
+  const holding = new Set<string>();
+  let pinchCooldownUntil = -Infinity;
+  // 双手刚出现时的掌心距离与平均高度，作为缩放与俯仰的基准
+  let twoHandBase: { spread: number; height: number } | null = null;
+  const speeds: Record<HandAxis, number> = { rotate: 0, zoom: 0, tilt: 0 };
+
+  const setSpeed = (type: HandAxis, speed: number, intents: HandIntent[]) => {
+    if (speed === speeds[type]) return;
+    speeds[type] = speed;
+    intents.push({ type, speed });
+  };
+
+  // 第一只手捏合打开大图，另一只手捏合换下一张；最后一只捏着的手松开时关闭
+  const setPinching = (key: string, pinching: boolean, t: number, intents: HandIntent[]) => {
+    const state = pinches.get(key);
+    if (!state || pinching === state.pinching) return;
+    state.pinching = pinching;
+    if (pinching && t >= pinchCooldownUntil) {
+      intents.push({ type: holding.size > 0 ? 'nextPhoto' : 'openPhoto' });
+      holding.add(key);
+    } else if (!pinching && holding.delete(key) && holding.size === 0) {
+      intents.push({ type: 'closePhoto' });
+    }
+  };
+
+  const releaseHand = (key: string, intents: HandIntent[]) => {
+    pinches.delete(key);
+    if (holding.delete(key) && holding.size === 0) intents.push({ type: 'closePhoto' });
+  };
+
+  const step = ({ t, hands }: HandFrame) => {
+    const intents: HandIntent[] = [];
+    let recognized: string | null = null;
+    const th = getThresholds();
+    const { gesture: name, score } = hands[0] || { gesture: '', score: 0 };
+
+    if (name) {
+      if (name === lastGesture) {
+        gestureStableCount++;
+      } else {
+        lastGesture = name;
+        gestureStableCount = 0;
+      }
+
+      // 同一手势只在首次稳定识别时发出意图，不会盖掉其它设备随后做的切换
+      if (score > th.minGestureScore && gestureStableCount >= th.stableFrames && name !== emittedGesture) {
+        const intent = GESTURE_INTENTS[name];
+        if (intent) {
+          intents.push(intent);
+          pinchCooldownUntil = t + PINCH_COOLDOWN_MS;
+        }
+        emittedGesture = name;
+        recognized = name;
+      }
+    } else {
+      lastGesture = '';
+      gestureStableCount = 0;
+      emittedGesture = '';
+    }
+
+    const keys = handKeys(hands);
+    pinches.forEach((_, key) => {
+      if (!keys.includes(key)) releaseHand(key, intents);
+    });
+
+    hands.forEach((hand, i) => {
+      const key = keys[i];
+      if (!pinches.has(key)) pinches.set(key, { pinching: false, changeStableCount: 0 });
+      const state = pinches.get(key)!;
+      const rawPinch = detectPinch(hand, state.pinching, th);
+
+      if (rawPinch === null) {
+        setPinching(key, false, t, intents);
+        state.changeStableCount = 0;
+      } else if (rawPinch === state.pinching) {
+        state.changeStableCount = 0;
+      } else {
+        state.changeStableCount++;
+        if (state.changeStableCount >= th.stableFrames) {
+          setPinching(key, rawPinch, t, intents);
+          state.changeStableCount = 0;
+        }
+      }
+    });
+
+    // 双手都没捏着照片时才控制镜头，避免看大图时背后的场景乱动
+    const anyPinching = Array.from(pinches.values()).some(state => state.pinching);
+    if (hands.length >= 2 && !anyPinching) {
+      // 距离与平均高度都与两只手的先后顺序无关，模型换序或双手交叉时不会跳变
+      const a = palmCenter(hands[0].landmarks);
+      const b = palmCenter(hands[1].landmarks);
+      const spread = Math.hypot(a.x - b.x, a.y - b.y) || 1e-6;
+      const height = (a.y + b.y) / 2;
+      twoHandBase ??= { spread, height };
+      const zoom = Math.log(spread / twoHandBase.spread);
+      const tilt = height - twoHandBase.height;
+      setSpeed('rotate', 0, intents);
+      setSpeed('zoom', Math.abs(zoom) > TWO_HAND.zoomDeadzone ? zoom * TWO_HAND.zoomGain : 0, intents);
+      setSpeed('tilt', Math.abs(tilt) > TWO_HAND.tiltDeadzone ? tilt * TWO_HAND.tiltGain : 0, intents);
+    } else {
+      twoHandBase = null;
+      setSpeed('zoom', 0, intents);
+      setSpeed('tilt', 0, intents);
+      const speed = hands.length === 1 ? (0.5 - hands[0].landmarks[0].x) * 0.15 : 0;
+      setSpeed('rotate', Math.abs(speed) > 0.01 ? speed : 0, intents);
+    }
+
+    return { intents, recognized };
+  };
+
+  const reset = () => {
+    const intents: HandIntent[] = [];
+    lastGesture = '';
+    gestureStableCount = 0;
+    twoHandBase = null;
+    pinches.forEach((_, key) => releaseHand(key, intents));
+    (Object.keys(speeds) as HandAxis[]).forEach(type => setSpeed(type, 0, intents));
+    return intents;
+  };
+
+  return { step, reset };
+};
+
+// 保留 5 位小数，足够复现分类结果，文件也小得多
+const roundLandmark = (value: number) => Math.round(value * 1e5) / 1e5;
+
+export const toRecordedFrame = (frame: HandFrame, startedAt: number): HandRecording['frames'][number] => ({
+  t: Math.round(frame.t - startedAt),
+  hands: frame.hands.map(({ hand, gesture, score, landmarks }) => ({
+    hand,
+    gesture,
+    score: roundLandmark(score),
+    landmarks: landmarks.map(p => [roundLandmark(p.x), roundLandmark(p.y), roundLandmark(p.z)]),
+  })),
+});
+
+export const fromRecordedFrame = (frame: HandRecording['frames'][number]): HandFrame => ({
+  t: frame.t,
+  hands: frame.hands.map(({ landmarks, ...hand }) => ({ ...hand, landmarks: landmarks.map(([x, y, z]) => ({ x, y, z })) })),
+});
+
+const isRecordedPoints = (landmarks: unknown): landmarks is RecordedPoint[] =>
+  Array.isArray(landmarks) && landmarks.length === 21 &&
+  landmarks.every(p => Array.isArray(p) && p.length === 3 && p.every(v => typeof v === 'number'));
+
+const isRecordedHand = (hand: any) =>
+  hand && typeof hand.hand === 'string' && typeof hand.gesture === 'string' && typeof hand.score === 'number' && isRecordedPoints(hand.landmarks);
+
+const isRecordedFrame = (frame: any) =>
+  frame && typeof frame.t === 'number' && Array.isArray(frame.hands) && frame.hands.every(isRecordedHand);
+
+const isHandThresholds = (value: any): value is HandThresholds =>
+  Boolean(value) && (Object.keys(DEFAULT_HAND_THRESHOLDS) as Array<keyof HandThresholds>).every(key => Number.isFinite(value[key]));
+
+// 较早的档案与录制没有 pinchScore，按默认值补齐；其余阈值不完整时返回 null
+export const normalizeHandThresholds = (value: any): HandThresholds | null => {
+  const merged = value && typeof value === 'object' ? { pinchScore: DEFAULT_HAND_THRESHOLDS.pinchScore, ...value } : null;
+  return isHandThresholds(merged) ? merged : null;
+};
+
+// 第 1 版只录一只手：{ t, gesture, score, landmarks | null }
+const upgradeV1Frame = (frame: any): HandRecording['frames'][number] | null => {
+  if (!frame || typeof frame.t !== 'number' || typeof frame.gesture !== 'string' || typeof frame.score !== 'number') return null;
+  if (frame.landmarks === null) return { t: frame.t, hands: [] };
+  if (!isRecordedPoints(frame.landmarks)) return null;
+  return { t: frame.t, hands: [{ hand: '', gesture: frame.gesture, score: frame.score, landmarks: frame.landmarks }] };
+};
+
+export const parseHandRecording = (raw: unknown): HandRecording => {
+  const data = raw as Partial<HandRecording> | null;
+  if (!data || data.format !== HAND_RECORDING_FORMAT) throw new Error('不是手势录制文件');
+  if (!Array.isArray(data.frames)) throw new Error('录制帧数据不完整');
+  if (data.version === 1) {
+    const frames = data.frames.map(upgradeV1Frame);
+    if (frames.some(frame => frame === null)) throw new Error('录制帧数据不完整');
+    return { ...data, version: HAND_RECORDING_VERSION, frames } as HandRecording;
+  }
+  if (data.version !== HAND_RECORDING_VERSION) throw new Error(`不支持的录制版本：${data.version}`);
+  const thresholds = data.thresholds === undefined ? undefined : normalizeHandThresholds(data.thresholds);
+  if (thresholds === null) throw new Error('录制中的阈值不完整');
+  if (!data.frames.every(isRecordedFrame)) throw new Error('录制帧数据不完整');
+  return { ...data, thresholds } as HandRecording;
+};
+
+// 从头到尾重放一段录制，返回带时间戳的意图序列；同一段录制每次结果完全相同
+export const replayHandRecording = (recording: HandRecording) => {
+  const thresholds = recording.thresholds ?? DEFAULT_HAND_THRESHOLDS;
+  const classifier = createHandClassifier(() => thresholds);
+  const timeline: Array<{ t: number; intent: HandIntent }> = [];
+  for (const recorded of recording.frames) {
+    classifier.step(fromRecordedFrame(recorded)).intents.forEach(intent => timeline.push({ t: recorded.t, intent }));
+  }
+  const end = recording.frames.length > 0 ? recording.frames[recording.frames.length - 1].t : 0;
+  classifier.reset().forEach(intent => timeline.push({ t: end, intent }));
+  return timeline;
+};
+
+// --- 校准 ---
+// 依次采集张开手掌、握拳、捏合三种手型，每帧记录一份测量值
+export type CalibrationPose = 'open' | 'fist' | 'pinch';
+export type CalibrationSample = { t: number; pinchDistance: number; openness: number; score: number };
+
+export const toCalibrationSample = (t: number, hand: HandObservation): CalibrationSample => ({ t, score: hand.score, ...measureHand(hand.landmarks) });
+
+const quantile = (values: number[], q: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))];
+};
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// 取各手型的分位数而不是平均值，偶尔几帧识别抖动不影响结果；两种手型区分不开时报错，提示重新采集
+export const deriveHandThresholds = (samples: Record<CalibrationPose, CalibrationSample[]>): HandThresholds => {
+  const { open, fist, pinch } = samples;
+  if (open.length === 0 || fist.length === 0 || pinch.length === 0) throw new Error('采集数据不足，请重新校准');
+
+  const pinchTight = quantile(pinch.map(s => s.pinchDistance), 0.9);
+  const openGap = quantile(open.map(s => s.pinchDistance), 0.1);
+  if (openGap - pinchTight < 0.02) throw new Error('捏合与张开手掌时拇指和食指的距离太接近，请靠近摄像头、捏紧后重试');
+
+  const fistHigh = quantile(fist.map(s => s.openness), 0.9);
+  const pinchLow = quantile(pinch.map(s => s.openness), 0.1);
+  if (pinchLow <= fistHigh) throw new Error('捏合时请伸直其余三根手指，与握拳区分开');
+  const opennessHigh = Math.max(quantile(pinch.map(s => s.openness), 0.9), quantile(open.map(s => s.openness), 0.9));
+
+  // 张开与握拳是模型直接给出的手势，以这两种手型置信度的低位再留些余量
+  const gestureScore = quantile([...open, ...fist].map(s => s.score), 0.1);
+  // 捏合没有对应的模型手势，置信度来自模型当时给出的其它类别；没有识别出任何手势（score 为 0）的帧不参与
+  const pinchScores = pinch.filter(s => s.score > 0).map(s => s.score);
+  const pinchScore = pinchScores.length > 0
+    ? Math.min(Math.max(quantile(pinchScores, 0.1) * 0.8, 0.2), 0.6)
+    : DEFAULT_HAND_THRESHOLDS.pinchScore;
+
+  // 帧率越高，同样的防抖时长需要越多帧（默认 2 帧约对应 30 FPS）
+  const poseFps = [open, fist, pinch].map(pose => pose.length / (Math.max(pose[pose.length - 1].t - pose[0].t, 1) / 1000));
+  const fps = Math.min(poseFps.reduce((sum, value) => sum + value, 0) / poseFps.length, 120);
+
+  return {
+    pinchDown: round(pinchTight + (openGap - pinchTight) * 0.25, 4),
+    pinchUp: round(pinchTight + (openGap - pinchTight) * 0.5, 4),
+    pinchScore: round(pinchScore, 3),
+    opennessMin: round((fistHigh + pinchLow) / 2, 3),
+    opennessMax: round(opennessHigh * 1.1, 3),
+    minGestureScore: round(Math.min(Math.max(gestureScore * 0.8, 0.2), 0.6), 3),
+    stableFrames: Math.min(Math.max(Math.round(fps / 15), 1), 4),
+  };
+};
@@ -0,0 +1,73 @@
+// 照片图集：把挂件缩略图拼进少数几张大贴图，挂件按 UV 区域取图，
+// 绘制调用与显存不随相册照片数增长。Worker 与主线程共用这里的排布与绘制逻辑。
+
+export const ATLAS_SIZE = 2048;
+// 每格四周留出的像素，避免 mipmap 采样到相邻照片
+export const ATLAS_PADDING = 2;
+
+export type AtlasLayout = { cellSize: number; perRow: number; perPage: number; pageCount: number };
+
+// [u 偏移, v 偏移, u 缩放, v 缩放]，贴图 flipY 为 false，v 缩放为负
+export type AtlasRect = [number, number, number, number];
+
+export type AtlasRequest = { urls: (string | null)[]; layout: AtlasLayout };
+export type AtlasResponse = { pages: ImageBitmap[] } | { error: string };
+
+// 照片越多格子越小，尽量一页放下；格子最小 64px，再多才分页
+export const atlasLayout = (count: number): AtlasLayout => {
+  const cellSize = [256, 128].find(size => (ATLAS_SIZE / size) ** 2 >= count) ?? 64;
+  const perRow = ATLAS_SIZE / cellSize;
+  const perPage = perRow * perRow;
+  return { cellSize, perRow, perPage, pageCount: Math.max(1, Math.ceil(count / perPage)) };
+};
+
+export const atlasCell = (layout: AtlasLayout, index: number) => {
+  const slot = index % layout.perPage;
+  return {
+    page: Math.floor(index / layout.perPage),
+    x: (slot % layout.perRow) * layout.cellSize,
+    y: Math.floor(slot / layout.perRow) * layout.cellSize,
+  };
+};
+
+export const atlasRect = (layout: AtlasLayout, index: number): AtlasRect => {
+  const { x, y } = atlasCell(layout, index);
+  const inner = layout.cellSize - ATLAS_PADDING * 2;
+  return [
+    (x + ATLAS_PADDING) / ATLAS_SIZE,
+    (y + ATLAS_PADDING + inner) / ATLAS_SIZE,
+    inner / ATLAS_SIZE,
+    -inner / ATLAS_SIZE,
+  ];
+};
+
+type AtlasCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+// 逐张下载、居中裁成正方形后画进格子；url 为 null（视频 / 动图）或加载失败的格子留空
+export const drawAtlasPages = async <T extends AtlasCanvas>(
+  urls: (string | null)[],
+  layout: AtlasLayout,
+  createCanvas: (size: number) => T
+): Promise<T[]> => {
+  const pages = Array.from({ length: layout.pageCount }, () => createCanvas(ATLAS_SIZE));
+  const contexts = pages.map(page => page.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null);
+
+  await Promise.all(urls.map(async (url, i) => {
+    if (!url) return;
+    const { page, x, y } = atlasCell(layout, i);
+    const ctx = contexts[page];
+    if (!ctx) return;
+    try {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const bitmap = await createImageBitmap(await res.blob());
+      const side = Math.min(bitmap.width, bitmap.height);
+      ctx.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, x, y, layout.cellSize, layout.cellSize);
+      bitmap.close();
+    } catch (err) {
+      console.warn(`[PhotoAtlas] Failed to load ${url}:`, err);
+    }
+  }));
+
+  return pages;
+};
@@ -0,0 +1,12 @@
+// 在 Worker 中下载并拼接图集，主线程不必解码上百张缩略图
+import { drawAtlasPages, type AtlasRequest, type AtlasResponse } from './photoAtlas';
+
+self.onmessage = async (e: MessageEvent<AtlasRequest>) => {
+  try {
+    const canvases = await drawAtlasPages(e.data.urls, e.data.layout, size => new OffscreenCanvas(size, size));
+    const pages = canvases.map(canvas => canvas.transferToImageBitmap());
+    self.postMessage({ pages } satisfies AtlasResponse, { transfer: pages });
+  } catch (err) {
+    self.postMessage({ error: String(err) } satisfies AtlasResponse);
+  }
+};
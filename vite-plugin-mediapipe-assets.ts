@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import type { ServerResponse } from 'http';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import type { Plugin } from 'vite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// 与前端约定的路径：<base>mediapipe/wasm/* 与 <base>mediapipe/gesture_recognizer.task
+const ASSET_DIR = 'mediapipe';
+const MODEL_FILE = 'gesture_recognizer.task';
+const WASM_SOURCE_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+// 模型不在 npm 包里：首次构建时下载并缓存在这里；没有网络的机器可以手动放入同名文件
+const MODEL_CACHE_DIR = path.resolve(__dirname, 'mediapipe-assets');
+const MODEL_DOWNLOAD_TIMEOUT_MS = 120_000;
+const DEFAULT_MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task';
+
+export type MediapipeAssetsOptions = {
+  // 模型下载地址，国内网络可换成镜像；也可用环境变量 MEDIAPIPE_MODEL_URL
+  modelUrl?: string;
+};
+
+const ASSET_MIME_TYPES: Record<string, string> = {
+  '.js': 'text/javascript; charset=utf-8',
+  '.wasm': 'application/wasm',
+  '.task': 'application/octet-stream',
+};
+
+// tasks-vision 自带的 WASM 运行时（SIMD 与非 SIMD 两套），由 FilesetResolver 按浏览器能力挑选
+const listWasmFiles = () =>
+  fs.existsSync(WASM_SOURCE_DIR) ? fs.readdirSync(WASM_SOURCE_DIR).filter(name => name.endsWith('.js') || name.endsWith('.wasm')) : [];
+
+// 先写临时文件再改名，下载中断不会留下半个模型
+const ensureModel = async (modelUrl: string): Promise<string | null> => {
+  const file = path.join(MODEL_CACHE_DIR, MODEL_FILE);
+  if (fs.existsSync(file)) return file;
+  try {
+    console.log(`[MediaPipe] Downloading ${MODEL_FILE} from ${modelUrl}`);
+    // 网络不通时别让构建一直卡住
+    const res = await fetch(modelUrl, { signal: AbortSignal.timeout(MODEL_DOWNLOAD_TIMEOUT_MS) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const bytes = Buffer.from(await res.arrayBuffer());
+    await fs.promises.mkdir(MODEL_CACHE_DIR, { recursive: true });
+    await fs.promises.writeFile(`${file}.download`, bytes);
+    await fs.promises.rename(`${file}.download`, file);
+    return file;
+  } catch (err: any) {
+    console.warn(`[MediaPipe] ${MODEL_FILE} unavailable (${err.message}); the page will load it from the CDN instead`);
+    return null;
+  }
+};
+
+const sendAsset = (res: ServerResponse, filePath: string) => {
+  const { size } = fs.statSync(filePath);
+  res.statusCode = 200;
+  res.setHeader('Content-Type', ASSET_MIME_TYPES[path.extname(filePath)] || 'application/octet-stream');
+  res.setHeader('Content-Length', size);
+  res.setHeader('Cache-Control', 'no-cache');
+  fs.createReadStream(filePath).pipe(res);
+};
+
+// 把手势识别的 WASM 与模型随构建产物发布，开发服务器也从本地提供，离线和国内网络都能用
+export default function mediapipeAssets(options: MediapipeAssetsOptions = {}): Plugin {
+  const modelUrl = options.modelUrl || process.env.MEDIAPIPE_MODEL_URL || DEFAULT_MODEL_URL;
+  let modelFile: Promise<string | null> | null = null;
+  const getModel = () => (modelFile ??= ensureModel(modelUrl));
+
+  return {
+    name: 'vite-plugin-mediapipe-assets',
+    configureServer(server) {
+      const prefix = `${server.config.base}${ASSET_DIR}/`;
+      server.middlewares.use(async (req, res, next) => {
+        const url = (req.url || '').split('?')[0];
+        if (!url.startsWith(prefix)) return next();
+        const relPath = url.slice(prefix.length);
+        // 只提供白名单内的文件名，不拼接任意路径
+        if (relPath === MODEL_FILE) {
+          const model = await getModel();
+          return model ? sendAsset(res, model) : next();
+        }
+        const name = relPath.startsWith('wasm/') ? relPath.slice('wasm/'.length) : '';
+        if (listWasmFiles().includes(name)) return sendAsset(res, path.join(WASM_SOURCE_DIR, name));
+        next();
+      });
+    },
+    async generateBundle() {
+      const wasmFiles = listWasmFiles();
+      for (const name of wasmFiles) {
+        this.emitFile({ type: 'asset', fileName: `${ASSET_DIR}/wasm/${name}`, source: fs.readFileSync(path.join(WASM_SOURCE_DIR, name)) });
+      }
+      const model = await getModel();
+      if (model) this.emitFile({ type: 'asset', fileName: `${ASSET_DIR}/${MODEL_FILE}`, source: fs.readFileSync(model) });
+      console.log(`[MediaPipe] Bundled ${wasmFiles.length} runtime file(s)${model ? ` and ${MODEL_FILE}` : ''}`);
+    },
+  };
+}
@@ -1,199 +1,1036 @@
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
+import http from 'http';
+import crypto from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import multer from 'multer';
+import sharp from 'sharp';
 import type { Plugin } from 'vite';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-export default function photoServer(): Plugin {
+// 照片数据始终读写项目的 public 目录：开发、vite preview 与独立服务器共用同一份照片
+const PUBLIC_DIR = path.resolve(__dirname, 'public');
+
+// 允许的图片类型：扩展名白名单与文件头魔数一一对应
+const IMAGE_TYPES = [
+  { mime: 'image/jpeg', exts: ['.jpg', '.jpeg'] },
+  { mime: 'image/png', exts: ['.png'] },
+  { mime: 'image/gif', exts: ['.gif'] },
+  { mime: 'image/webp', exts: ['.webp'] },
+];
+// 短视频：浏览器可直接播放的容器，不生成缩略图，由前端取帧显示
+const VIDEO_TYPES = [
+  { mime: 'video/mp4', exts: ['.mp4', '.m4v'] },
+  { mime: 'video/webm', exts: ['.webm'] },
+];
+const PHOTO_TYPES = [...IMAGE_TYPES, ...VIDEO_TYPES];
+const PHOTO_EXTS = PHOTO_TYPES.flatMap(t => t.exts);
+const VIDEO_EXTS = VIDEO_TYPES.flatMap(t => t.exts);
+
+// 单张上传大小上限（可通过插件参数覆盖）与单次请求文件数上限
+const DEFAULT_MAX_FILE_SIZE = 25 * 1024 * 1024;
+const MAX_FILES_PER_UPLOAD = 100;
+
+export type PhotoServerOptions = {
+  // 单张照片大小上限（字节），超出的文件会被逐个拒绝而不是让整个请求失败
+  maxFileSize?: number;
+};
+
+// 缩略图缓存目录：public/photo_variants/<照片相对目录>/<原文件名>.<variant>.jpg
+const VARIANT_DIR = 'photo_variants';
+// 树上拍立得贴图：2 的幂次方正方形，GPU 可生成完整 mipmap
+const ORNAMENT_SIZE = 512;
+// 大图查看：长边上限，足够铺满 75vh 的 lightbox
+const LIGHTBOX_MAX_SIZE = 1600;
+
+export type PhotoMeta = {
+  caption: string;
+  date: string;
+  message: string;
+};
+
+// video = 短视频；animated = 多帧 GIF / WebP（贴图为首帧，大图为原图）
+export type PhotoKind = 'video' | 'animated';
+
+export type PhotoEntry = {
+  src: string;
+  ornament: string;
+  lightbox: string;
+  kind?: PhotoKind;
+  meta?: PhotoMeta;
+  // 原文件修改时间（毫秒），前端据此生成稳定的缓存参数，文件被替换后才会变化
+  mtime?: number;
+};
+
+// 相册：默认相册即 public/photos 根目录，具名相册为其子目录 public/photos/<name>
+export const ALBUM_NAME_PATTERN = /^[\p{L}\p{N}_-]{1,40}$/u;
+
+type AlbumContext = {
+  name: string;
+  // 相对 public 的目录，如 photos 或 photos/family
+  relDir: string;
+  dir: string;
+  // 照片说明的旁路文件，键为相对路径（photos/a.jpg、backup_photos/1.jpg）
+  metaFile: string;
+  // 手动排序清单：相对路径数组，越靠前越靠近树顶
+  orderFile: string;
+  // 内容哈希索引，用于上传去重
+  hashFile: string;
+};
+
+export type AlbumSummary = {
+  name: string;
+  count: number;
+};
+
+const MAX_CAPTION_LENGTH = 80;
+const MAX_MESSAGE_LENGTH = 500;
+
+const isPhotoFile = (file: string) => PHOTO_EXTS.includes(path.extname(file).toLowerCase());
+const isVideoFile = (file: string) => VIDEO_EXTS.includes(path.extname(file).toLowerCase());
+
+const albumContext = (name: string): AlbumContext => {
+  const relDir = name ? `photos/${name}` : 'photos';
+  const dir = path.resolve(PUBLIC_DIR, relDir);
   return {
-    name: 'vite-plugin-photo-server',
-    configureServer(server) {
-      // 配置 multer 存储
-      const storage = multer.diskStorage({
-        destination: function (_req, _file, cb) {
-          const dir = path.resolve(__dirname, 'public/photos');
-          if (!fs.existsSync(dir)){
-              fs.mkdirSync(dir, { recursive: true });
-          }
-          cb(null, dir);
-        },
-        filename: function (_req, file, cb) {
-          // 尝试解决中文文件名乱码问题
-          let name = file.originalname;
-          try {
-             name = Buffer.from(file.originalname, 'latin1').toString('utf8');
-          } catch (_e) {
-             // ignore
-          }
-          cb(null, name);
-        }
+    name,
+    relDir,
+    dir,
+    metaFile: path.join(dir, 'photo-meta.json'),
+    orderFile: path.join(dir, 'photo-order.json'),
+    hashFile: path.join(dir, 'photo-hashes.json'),
+  };
+};
+
+// 解析 ?album=，名称不合法时返回 null
+const resolveAlbum = (reqUrl = ''): AlbumContext | null => {
+  const name = new URL('http://localhost' + reqUrl).searchParams.get('album') || '';
+  if (name && !ALBUM_NAME_PATTERN.test(name)) return null;
+  return albumContext(name);
+};
+
+const listPhotoFiles = (dir: string) => {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter(d => d.isFile() && isPhotoFile(d.name))
+    .map(d => d.name);
+};
+
+const listAlbums = (): AlbumSummary[] => {
+  const root = albumContext('');
+  const albums: AlbumSummary[] = [{ name: '', count: listPhotoFiles(root.dir).length }];
+  if (fs.existsSync(root.dir)) {
+    for (const d of fs.readdirSync(root.dir, { withFileTypes: true })) {
+      if (d.isDirectory() && ALBUM_NAME_PATTERN.test(d.name)) {
+        albums.push({ name: d.name, count: listPhotoFiles(albumContext(d.name).dir).length });
+      }
+    }
+  }
+  return albums;
+};
+
+// 照片相对路径是否属于该相册（或作为回退展示的备份目录）
+const parseAlbumPhotoPath = (album: AlbumContext, src: string) => {
+  for (const relDir of [album.relDir, 'backup_photos']) {
+    const prefix = `${relDir}/`;
+    if (!src.startsWith(prefix)) continue;
+    const file = src.slice(prefix.length);
+    if (!file || file.includes('/') || file.includes('\\') || file.includes('..') || !isPhotoFile(file)) return null;
+    return { relDir, file };
+  }
+  return null;
+};
+
+const variantFiles = (relDir: string, file: string) => {
+  const outDir = path.resolve(PUBLIC_DIR, VARIANT_DIR, relDir);
+  return {
+    outDir,
+    ornament: path.join(outDir, `${file}.ornament.jpg`),
+    lightbox: path.join(outDir, `${file}.lightbox.jpg`),
+  };
+};
+
+const isStale = (target: string, sourceMtime: number) => {
+  return !fs.existsSync(target) || fs.statSync(target).mtimeMs < sourceMtime;
+};
+
+// 生成（或复用缓存的）贴图与大图版本；rotate() 无参数时按 EXIF Orientation 摆正
+const ensureVariants = async (relDir: string, file: string): Promise<PhotoEntry> => {
+  const src = `${relDir}/${file}`;
+  const sourcePath = path.resolve(PUBLIC_DIR, relDir, file);
+  const sourceMtime = fs.existsSync(sourcePath) ? fs.statSync(sourcePath).mtimeMs : 0;
+  const mtime = Math.round(sourceMtime) || undefined;
+  if (isVideoFile(file)) return { src, ornament: src, lightbox: src, kind: 'video', mtime };
+
+  const fallback: PhotoEntry = { src, ornament: src, lightbox: src, mtime };
+  const out = variantFiles(relDir, file);
+  let animated = false;
+
+  try {
+    animated = ((await sharp(sourcePath).metadata()).pages || 1) > 1;
+    if (!fs.existsSync(out.outDir)) {
+      fs.mkdirSync(out.outDir, { recursive: true });
+    }
+    if (isStale(out.ornament, sourceMtime)) {
+      await sharp(sourcePath)
+        .rotate()
+        .resize(ORNAMENT_SIZE, ORNAMENT_SIZE, { fit: 'cover', position: 'attention' })
+        .jpeg({ quality: 82, mozjpeg: true })
+        .toFile(out.ornament);
+    }
+    if (isStale(out.lightbox, sourceMtime)) {
+      await sharp(sourcePath)
+        .rotate()
+        .resize(LIGHTBOX_MAX_SIZE, LIGHTBOX_MAX_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 88, mozjpeg: true })
+        .toFile(out.lightbox);
+    }
+  } catch (err) {
+    // 无法解码的图片退回原图，不影响列表
+    console.error(`[PhotoServer] Failed to build variants for ${src}:`, err);
+    return fallback;
+  }
+
+  // 动图的贴图只是首帧占位，大图直接使用原图以保留动画
+  if (animated) {
+    return { src, ornament: `${VARIANT_DIR}/${relDir}/${file}.ornament.jpg`, lightbox: src, kind: 'animated', mtime };
+  }
+  return {
+    src,
+    ornament: `${VARIANT_DIR}/${relDir}/${file}.ornament.jpg`,
+    lightbox: `${VARIANT_DIR}/${relDir}/${file}.lightbox.jpg`,
+    mtime,
+  };
+};
+
+const readSidecar = <T>(file: string, fallback: T, isValid: (value: unknown) => boolean): T => {
+  try {
+    if (!fs.existsSync(file)) return fallback;
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return isValid(parsed) ? parsed : fallback;
+  } catch (err) {
+    console.error(`[PhotoServer] Failed to read ${path.basename(file)}:`, err);
+    return fallback;
+  }
+};
+
+const writeSidecar = (file: string, data: unknown) => {
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(file, JSON.stringify(data, null, 2));
+};
+
+const readMetaFile = (album: AlbumContext): Record<string, PhotoMeta> => {
+  return readSidecar(album.metaFile, {}, v => Boolean(v) && typeof v === 'object' && !Array.isArray(v));
+};
+
+const writeMetaFile = (album: AlbumContext, meta: Record<string, PhotoMeta>) => writeSidecar(album.metaFile, meta);
+
+const readOrderFile = (album: AlbumContext): string[] => {
+  return readSidecar<string[]>(album.orderFile, [], v => Array.isArray(v)).filter(v => typeof v === 'string');
+};
+
+// 清单中的照片按手动顺序排在前面，未出现的（如新上传的）保持默认顺序排在后面
+const applyOrder = (entries: PhotoEntry[], order: string[]) => {
+  const rank = new Map(order.map((src, i) => [src, i]));
+  const ordered = entries.filter(e => rank.has(e.src)).sort((a, b) => rank.get(a.src)! - rank.get(b.src)!);
+  return [...ordered, ...entries.filter(e => !rank.has(e.src))];
+};
+
+// 数字文件名按数值排序，其余按名称
+const sortPhotoFiles = (files: string[]) => files.sort((nameA, nameB) => {
+  const numA = parseInt(nameA);
+  const numB = parseInt(nameB);
+  if (!isNaN(numA) && !isNaN(numB)) {
+    return numA - numB;
+  }
+  return nameA.localeCompare(nameB);
+});
+
+// 逐张生成，避免一次性解码大量原图占满内存
+const buildPhotoEntries = async (album: AlbumContext, relDir: string, files: string[]) => {
+  const metaMap = readMetaFile(album);
+  const entries: PhotoEntry[] = [];
+  for (const file of sortPhotoFiles(files)) {
+    const entry = await ensureVariants(relDir, file);
+    if (metaMap[entry.src]) entry.meta = metaMap[entry.src];
+    entries.push(entry);
+  }
+  return applyOrder(entries, readOrderFile(album));
+};
+
+const BACKUP_DIR = path.resolve(PUBLIC_DIR, 'backup_photos');
+
+// 相册照片列表；相册为空时回退到备份照片
+const listAlbumPhotos = (album: AlbumContext) => {
+  const userFiles = listPhotoFiles(album.dir);
+  if (userFiles.length > 0) return buildPhotoEntries(album, album.relDir, userFiles);
+  return buildPhotoEntries(album, 'backup_photos', listPhotoFiles(BACKUP_DIR));
+};
+
+export const PHOTO_MANIFEST_FILE = 'photos.json';
+
+// 静态部署用的照片清单：备份照片 + 各相册已有的照片
+export type PhotoManifest = {
+  version: 1;
+  generatedAt: string;
+  defaults: PhotoEntry[];
+  albums: Record<string, PhotoEntry[]>;
+};
+
+// 备份目录中的默认照片，说明沿用默认相册的旁路文件
+const listDefaultPhotos = () => buildPhotoEntries(albumContext(''), 'backup_photos', listPhotoFiles(BACKUP_DIR));
+
+// 照片目录的快照：各相册与备份目录中照片及旁路文件的名称、大小和修改时间。
+// 手动复制、替换或删除照片后随之变化，缓存的清单据此失效
+const photoDirsSignature = () => {
+  const stamp = (file: string) => {
+    if (!fs.existsSync(file)) return '-';
+    const stat = fs.statSync(file);
+    return `${stat.size}:${stat.mtimeMs}`;
+  };
+  const albums = listAlbums().map(({ name }) => albumContext(name));
+  return [
+    ...listPhotoFiles(BACKUP_DIR).map(file => `backup_photos/${file}:${stamp(path.join(BACKUP_DIR, file))}`),
+    ...albums.flatMap(album => [
+      ...listPhotoFiles(album.dir).map(file => `${album.relDir}/${file}:${stamp(path.join(album.dir, file))}`),
+      `${album.relDir}:meta:${stamp(album.metaFile)}`,
+      `${album.relDir}:order:${stamp(album.orderFile)}`,
+    ]),
+  ].join('\n');
+};
+
+const buildPhotoManifest = async (): Promise<PhotoManifest> => {
+  const albums: Record<string, PhotoEntry[]> = {};
+  for (const { name, count } of listAlbums()) {
+    if (count === 0) continue;
+    const album = albumContext(name);
+    albums[name] = await buildPhotoEntries(album, album.relDir, listPhotoFiles(album.dir));
+  }
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    defaults: await listDefaultPhotos(),
+    albums,
+  };
+};
+
+const normalizeMeta = (input: any): PhotoMeta => {
+  const text = (v: unknown, max: number) => (typeof v === 'string' ? v.trim().slice(0, max) : '');
+  const date = typeof input?.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(input.date) ? input.date : '';
+  return {
+    caption: text(input?.caption, MAX_CAPTION_LENGTH),
+    date,
+    message: text(input?.message, MAX_MESSAGE_LENGTH),
+  };
+};
+
+const isEmptyMeta = (meta: PhotoMeta) => !meta.caption && !meta.date && !meta.message;
+
+const readJsonBody = (req: NodeJS.ReadableStream, limit = 64 * 1024): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new Error('Body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+export type UploadRejectReason = 'too_large' | 'not_an_image' | 'corrupt_image';
+
+export type UploadResult =
+  | { name: string; status: 'accepted'; photo: PhotoEntry }
+  | { name: string; status: 'duplicate'; duplicateOf: string }
+  | { name: string; status: 'rejected'; reason: UploadRejectReason; message: string };
+
+type StagedFile = Express.Multer.File & { hash: string; oversized: boolean };
+
+type HashIndex = Record<string, { hash: string; size: number; mtimeMs: number }>;
+
+// 自定义 multer 存储：边写临时文件边计算 SHA-256；
+// 超出大小上限时丢弃剩余数据并标记，而不是中断整个请求，这样其它文件仍可正常处理
+const stagingStorage = (maxFileSize: number): multer.StorageEngine => ({
+  _handleFile(_req, file, cb) {
+    const tempPath = path.join(os.tmpdir(), `photo-upload-${crypto.randomUUID()}`);
+    const out = fs.createWriteStream(tempPath);
+    const hash = crypto.createHash('sha256');
+    let size = 0;
+    let oversized = false;
+
+    const written = new Promise<void>((resolve, reject) => {
+      out.on('finish', resolve);
+      out.on('error', reject);
+    });
+    const consumed = new Promise<void>((resolve, reject) => {
+      file.stream.on('end', resolve);
+      file.stream.on('error', reject);
+    });
+
+    // 先 pipe 再监听 data：超限时 unpipe 不会导致当前分块写入已关闭的文件
+    file.stream.pipe(out);
+    file.stream.on('data', (chunk: Buffer) => {
+      if (oversized) return;
+      size += chunk.length;
+      if (size > maxFileSize) {
+        oversized = true;
+        file.stream.unpipe(out);
+        out.end();
+        return;
+      }
+      hash.update(chunk);
+    });
+
+    Promise.all([written, consumed])
+      .then(() => cb(null, { path: tempPath, size, hash: hash.digest('hex'), oversized } as Partial<StagedFile>))
+      .catch(err => fs.rm(tempPath, { force: true }, () => cb(err)));
+  },
+  _removeFile(_req, file, cb) {
+    fs.rm(file.path, { force: true }, () => cb(null));
+  },
+});
+
+// 按文件头判断真实类型，只认白名单中的格式
+// ISO 媒体文件（ftyp 盒子）既可能是视频也可能是 HEIC / AVIF 照片，要看品牌才能区分
+const MP4_VIDEO_BRANDS = new Set(['isom', 'iso2', 'iso4', 'iso5', 'iso6', 'mp41', 'mp42', 'avc1', 'M4V ', 'M4VH', 'M4VP', 'qt  ', '3gp4', '3gp5', '3gp6', '3g2a', 'dash', 'mmp4', 'f4v ', 'MSNV', 'XAVC']);
+const HEIF_IMAGE_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1', 'avif', 'avis']);
+
+// 主品牌在 8–12 字节，兼容品牌从 16 字节起到 ftyp 盒子结束；带任何 HEIF / AVIF 品牌都不按视频处理
+const isMp4Video = (header: Buffer) => {
+  const boxSize = Math.min(header.readUInt32BE(0), header.length);
+  const brands = [header.toString('latin1', 8, 12)];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) brands.push(header.toString('latin1', offset, offset + 4));
+  if (brands.some(brand => HEIF_IMAGE_BRANDS.has(brand))) return false;
+  return brands.some(brand => MP4_VIDEO_BRANDS.has(brand));
+};
+
+const sniffPhotoType = (filePath: string) => {
+  const header = Buffer.alloc(64);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    fs.readSync(fd, header, 0, header.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  const ascii = header.toString('latin1');
+  let mime: string | null = null;
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) mime = 'image/jpeg';
+  else if (header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) mime = 'image/png';
+  else if (ascii.startsWith('GIF87a') || ascii.startsWith('GIF89a')) mime = 'image/gif';
+  else if (ascii.startsWith('RIFF') && ascii.slice(8, 12) === 'WEBP') mime = 'image/webp';
+  else if (ascii.slice(4, 8) === 'ftyp' && isMp4Video(header)) mime = 'video/mp4';
+  else if (header.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]))) mime = 'video/webm';
+  return PHOTO_TYPES.find(t => t.mime === mime) || null;
+};
+
+const hashFileContent = (filePath: string) => {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+};
+
+// 读取相册的哈希索引，只为新增或修改过的文件重新计算
+const loadHashIndex = (album: AlbumContext): HashIndex => {
+  const cached = readSidecar<HashIndex>(album.hashFile, {}, v => Boolean(v) && typeof v === 'object' && !Array.isArray(v));
+  const index: HashIndex = {};
+  let changed = false;
+  for (const file of listPhotoFiles(album.dir)) {
+    const stat = fs.statSync(path.join(album.dir, file));
+    const entry = cached[file];
+    if (entry && entry.size === stat.size && entry.mtimeMs === stat.mtimeMs) {
+      index[file] = entry;
+    } else {
+      index[file] = { hash: hashFileContent(path.join(album.dir, file)), size: stat.size, mtimeMs: stat.mtimeMs };
+      changed = true;
+    }
+  }
+  if (changed || Object.keys(cached).length !== Object.keys(index).length) {
+    writeSidecar(album.hashFile, index);
+  }
+  return index;
+};
+
+// 尝试解决中文文件名乱码问题，并去掉路径与控制字符
+const decodeUploadName = (originalname: string) => {
+  let name = originalname;
+  try {
+     name = Buffer.from(originalname, 'latin1').toString('utf8');
+  } catch (_e) {
+     // ignore
+  }
+  const base = path.basename(name.replace(/\\/g, '/'));
+  return Array.from(base).filter(c => c.charCodeAt(0) >= 0x20).join('').trim();
+};
+
+const uniqueFileName = (dir: string, stem: string, ext: string) => {
+  let candidate = `${stem}${ext}`;
+  for (let n = 1; fs.existsSync(path.join(dir, candidate)); n++) {
+    candidate = `${stem}-${n}${ext}`;
+  }
+  return candidate;
+};
+
+const moveFile = (from: string, to: string) => {
+  try {
+    fs.renameSync(from, to);
+  } catch (err: any) {
+    // 临时目录与相册不在同一文件系统时无法直接 rename
+    if (err?.code !== 'EXDEV') throw err;
+    fs.copyFileSync(from, to);
+    fs.unlinkSync(from);
+  }
+};
+
+// 逐个校验暂存文件：大小、真实类型、能否解码、内容是否重复，通过后移入相册并生成缩略图
+const processUploads = async (album: AlbumContext, files: StagedFile[]): Promise<UploadResult[]> => {
+  if (!fs.existsSync(album.dir)) {
+    fs.mkdirSync(album.dir, { recursive: true });
+  }
+  const index = loadHashIndex(album);
+  const byHash = new Map(Object.entries(index).map(([file, entry]) => [entry.hash, file]));
+  const results: UploadResult[] = [];
+
+  for (const file of files) {
+    const name = decodeUploadName(file.originalname);
+    try {
+      if (file.oversized) {
+        results.push({ name, status: 'rejected', reason: 'too_large', message: 'File exceeds the size limit' });
+        continue;
+      }
+      const type = sniffPhotoType(file.path);
+      if (!type) {
+        results.push({ name, status: 'rejected', reason: 'not_an_image', message: 'Not a JPEG, PNG, GIF, WebP, MP4 or WebM file' });
+        continue;
+      }
+      try {
+        // 视频无法在服务端解码，只校验文件头
+        if (!type.mime.startsWith('video/')) await sharp(file.path).metadata();
+      } catch {
+        results.push({ name, status: 'rejected', reason: 'corrupt_image', message: 'Image could not be decoded' });
+        continue;
+      }
+      const existing = byHash.get(file.hash);
+      if (existing) {
+        results.push({ name, status: 'duplicate', duplicateOf: `${album.relDir}/${existing}` });
+        continue;
+      }
+
+      // 扩展名与真实类型不符时按真实类型更正；同名但内容不同的文件自动改名而不是覆盖
+      const parsed = path.parse(name);
+      const ext = type.exts.includes(parsed.ext.toLowerCase()) ? parsed.ext : type.exts[0];
+      const stem = parsed.name || file.hash.slice(0, 12);
+      const finalName = uniqueFileName(album.dir, stem, ext);
+      const finalPath = path.join(album.dir, finalName);
+      moveFile(file.path, finalPath);
+
+      const stat = fs.statSync(finalPath);
+      index[finalName] = { hash: file.hash, size: stat.size, mtimeMs: stat.mtimeMs };
+      byHash.set(file.hash, finalName);
+      results.push({ name, status: 'accepted', photo: await ensureVariants(album.relDir, finalName) });
+    } finally {
+      fs.rmSync(file.path, { force: true });
+    }
+  }
+
+  writeSidecar(album.hashFile, index);
+  return results;
+};
+
+const removeVariants = (relDir: string, file: string) => {
+  const out = variantFiles(relDir, file);
+  for (const p of [out.ornament, out.lightbox]) {
+    if (fs.existsSync(p)) fs.unlinkSync(p);
+  }
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.webm': 'video/webm',
+  '.ico': 'image/x-icon',
+  '.mp3': 'audio/mpeg',
+  '.wasm': 'application/wasm',
+};
+
+// 只在 root 之内时才返回文件，防止目录遍历
+const resolveInside = (root: string, relPath: string) => {
+  const filePath = path.resolve(root, '.' + path.posix.normalize('/' + relPath));
+  if (filePath !== root && !filePath.startsWith(root + path.sep)) return null;
+  return filePath;
+};
+
+const sendFile = (res: ServerResponse, filePath: string, cacheControl = 'no-cache', range?: string) => {
+  if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) return false;
+  const { size } = fs.statSync(filePath);
+  res.setHeader('Content-Type', MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream');
+  res.setHeader('Cache-Control', cacheControl);
+  res.setHeader('Accept-Ranges', 'bytes');
+
+  // 视频拖动进度、Safari 播放视频都依赖分段请求（只支持单段）
+  const match = range ? /^bytes=(\d*)-(\d*)$/.exec(range.trim()) : null;
+  if (match && (match[1] || match[2])) {
+    const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+    const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    if (start > end || start >= size) {
+      res.statusCode = 416;
+      res.setHeader('Content-Range', `bytes */${size}`);
+      res.end();
+      return true;
+    }
+    res.statusCode = 206;
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+    res.setHeader('Content-Length', end - start + 1);
+    fs.createReadStream(filePath, { start, end }).pipe(res);
+    return true;
+  }
+
+  res.statusCode = 200;
+  res.setHeader('Content-Length', size);
+  fs.createReadStream(filePath).pipe(res);
+  return true;
+};
+
+const STORED_PHOTO_DIRS = ['photos/', 'backup_photos/', `${VARIANT_DIR}/`];
+
+// 请求路径解码；%E0%A4%A 这类非法编码返回 null，由调用方回 400，不能让异常抛出请求回调
+const decodeRequestPath = (rawUrl: string | undefined) => {
+  try {
+    return decodeURIComponent((rawUrl || '/').split('?')[0]);
+  } catch {
+    return null;
+  }
+};
+
+const sendBadRequest = (res: ServerResponse) => {
+  res.statusCode = 400;
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.end('Bad request');
+};
+
+const serveStoredPhoto = (base: string, url: string, req: IncomingMessage, res: ServerResponse) => {
+  if (!url.startsWith(base)) return false;
+  const relPath = url.slice(base.length);
+  if (!STORED_PHOTO_DIRS.some(dir => relPath.startsWith(dir))) return false;
+  // 只提供图片，不暴露说明、排序等旁路文件
+  if (!isPhotoFile(relPath)) return false;
+  const filePath = resolveInside(PUBLIC_DIR, relPath);
+  return filePath ? sendFile(res, filePath, 'no-cache', req.headers.range) : false;
+};
+
+type PhotoApiOptions = PhotoServerOptions & {
+  base: string;
+  // 预览 / 独立部署时没有 Vite 托管 public 目录，由 API 自己提供照片文件
+  servePhotoFiles?: boolean;
+};
+
+export const createPhotoApiMiddleware = ({ base: rawBase, maxFileSize = DEFAULT_MAX_FILE_SIZE, servePhotoFiles = false }: PhotoApiOptions) => {
+  // 配置 multer：先暂存到临时目录，校验通过后再移入相册
+  const upload = multer({
+    storage: stagingStorage(maxFileSize),
+    limits: { files: MAX_FILES_PER_UPLOAD },
+  });
+
+  // 获取 base 路径，确保以 / 结尾
+  let base = rawBase || '/';
+  if (!base.endsWith('/')) base += '/';
+
+  const apiPhotos = base + 'api/photos';
+  const apiReset = base + 'api/reset';
+  const apiUpload = base + 'api/upload';
+  const apiPhotoMeta = base + 'api/photos/meta';
+  const apiPhotoOrder = base + 'api/photos/order';
+  const apiAlbums = base + 'api/albums';
+  const apiDefaults = base + 'api/photos/defaults';
+  const manifestUrl = base + PHOTO_MANIFEST_FILE;
+
+  // 清单要遍历所有相册并生成缩略图，构建一次后缓存；照片目录有变化（接口写入或手动复制）时重建
+  let manifestCache: { signature: string; manifest: Promise<PhotoManifest> } | null = null;
+  const getManifest = () => {
+    const signature = photoDirsSignature();
+    if (manifestCache?.signature !== signature) {
+      const manifest: Promise<PhotoManifest> = buildPhotoManifest().catch(err => {
+        if (manifestCache?.manifest === manifest) manifestCache = null;
+        throw err;
       });
-      
-      const upload = multer({ storage: storage });
-
-      // 获取 base 路径，确保以 / 结尾
-      let base = server.config.base || '/';
-      if (!base.endsWith('/')) base += '/';
-
-      const apiPhotos = base + 'api/photos';
-      const apiReset = base + 'api/reset';
-      const apiUpload = base + 'api/upload';
-
-      console.log(`[PhotoServer] API endpoints registered:`);
-      console.log(`  GET  ${apiPhotos}`);
-      console.log(`  POST ${apiReset}`);
-      console.log(`  POST ${apiUpload}`);
-      console.log(`  DELETE ${apiPhotos}`);
-
-      server.middlewares.use((req, res, next) => {
-        const url = req.url?.split('?')[0];
-        
-        // GET /api/photos - 获取照片列表
-        if (req.method === 'GET' && url === apiPhotos) {
-          const userDir = path.resolve(__dirname, 'public/photos');
-          const backupDir = path.resolve(__dirname, 'public/backup_photos');
-          
-          try {
-            // 1. 尝试读取用户上传目录
-            let userFiles: string[] = [];
-            if (fs.existsSync(userDir)) {
-               userFiles = fs.readdirSync(userDir).filter(file => {
-                 const ext = path.extname(file).toLowerCase();
-                 return ['.jpg', '.jpeg', '.png', '.gif', '.webp'].includes(ext);
-               });
-            }
+      manifestCache = { signature, manifest };
+    }
+    return manifestCache.manifest;
+  };
 
-            let resultFiles: string[] = [];
-            
-            // 2. 如果用户目录有图片，则使用用户图片
-            if (userFiles.length > 0) {
-               // 返回相对路径 photos/xxx.jpg
-               resultFiles = userFiles.map(f => `photos/${f}`);
-            } else {
-               // 3. 否则使用备份目录
-               if (fs.existsSync(backupDir)) {
-                   const backupFiles = fs.readdirSync(backupDir).filter(file => {
-                     const ext = path.extname(file).toLowerCase();
-                     return ['.jpg', '.jpeg', '.png', '.gif', '.webp'].includes(ext);
-                   });
-                   // 返回相对路径 backup_photos/xxx.jpg
-                   resultFiles = backupFiles.map(f => `backup_photos/${f}`);
-               }
-            }
-            
-            // 排序
-            resultFiles.sort((a, b) => {
-                const nameA = path.basename(a);
-                const nameB = path.basename(b);
-                const numA = parseInt(nameA);
-                const numB = parseInt(nameB);
-                if (!isNaN(numA) && !isNaN(numB)) {
-                    return numA - numB;
-                }
-                return nameA.localeCompare(nameB);
-            });
+  console.log(`[PhotoServer] API endpoints registered:`);
+  console.log(`  GET  ${apiPhotos}`);
+  console.log(`  POST ${apiReset}`);
+  console.log(`  POST ${apiUpload}`);
+  console.log(`  DELETE ${apiPhotos}`);
+  console.log(`  PUT  ${apiPhotoMeta}`);
+  console.log(`  PUT  ${apiPhotoOrder}`);
+  console.log(`  GET  ${apiAlbums}`);
+  console.log(`  GET  ${apiDefaults}`);
+  console.log(`  GET  ${manifestUrl}`);
 
-            res.setHeader('Content-Type', 'application/json');
-            res.end(JSON.stringify(resultFiles));
-          } catch (err) {
-            console.error('Error reading photos directory:', err);
-            res.statusCode = 500;
-            res.end(JSON.stringify({ error: 'Failed to list photos' }));
-          }
-          return;
-        }
+  return (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const url = req.url?.split('?')[0];
 
-        // POST /api/reset - 清空用户照片
-        if (req.method === 'POST' && url === apiReset) {
-            const userDir = path.resolve(__dirname, 'public/photos');
-            try {
-                if (fs.existsSync(userDir)) {
-                    const files = fs.readdirSync(userDir);
-                    for (const file of files) {
-                        // 只删除图片文件，保留 .gitkeep
-                        if (file !== '.gitkeep') {
-                             fs.unlinkSync(path.join(userDir, file));
-                        }
+    // 预览 / 独立部署：照片、缩略图与备份照片直接从 public 目录读取，保证上传后立即可见
+    if (servePhotoFiles && req.method === 'GET' && url) {
+      const decodedPath = decodeRequestPath(url);
+      if (decodedPath === null) {
+        sendBadRequest(res);
+        return;
+      }
+      if (serveStoredPhoto(base, decodedPath, req, res)) return;
+    }
+
+    // GET /photos.json - 实时生成的照片清单，与构建产物中的静态清单格式一致
+    if (req.method === 'GET' && url === manifestUrl) {
+      getManifest()
+        .then(manifest => {
+          res.setHeader('Content-Type', 'application/json');
+          res.setHeader('Cache-Control', 'no-cache');
+          res.end(JSON.stringify(manifest));
+        })
+        .catch(err => {
+          console.error('Error building photo manifest:', err);
+          res.statusCode = 500;
+          res.end(JSON.stringify({ error: 'Failed to build photo manifest' }));
+        });
+      return;
+    }
+
+    // GET /api/photos/defaults - 备份目录中的默认照片，相册不为空时前端用它补上默认照片
+    if (req.method === 'GET' && url === apiDefaults) {
+      listDefaultPhotos()
+        .then(defaults => {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(defaults));
+        })
+        .catch(err => {
+          console.error('Error listing default photos:', err);
+          res.statusCode = 500;
+          res.end(JSON.stringify({ error: 'Failed to list default photos' }));
+        });
+      return;
+    }
+
+    const isApiRoute = [apiPhotos, apiReset, apiUpload, apiPhotoMeta, apiPhotoOrder].includes(url || '');
+    const album = resolveAlbum(req.url);
+    if (isApiRoute && !album) {
+      res.statusCode = 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: 'Invalid album name' }));
+      return;
+    }
+
+    // GET /api/albums - 列出所有相册（默认相册名为空字符串）
+    if (req.method === 'GET' && url === apiAlbums) {
+      try {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(listAlbums()));
+      } catch (err) {
+        console.error('Error listing albums:', err);
+        res.statusCode = 500;
+        res.end(JSON.stringify({ error: 'Failed to list albums' }));
+      }
+      return;
+    }
+
+    if (!isApiRoute || !album) {
+      next();
+      return;
+    }
+
+    // GET /api/photos - 获取照片列表（附带贴图/大图版本）
+    if (req.method === 'GET' && url === apiPhotos) {
+      listAlbumPhotos(album)
+        .then(entries => {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(entries));
+        })
+        .catch(err => {
+          console.error('Error reading photos directory:', err);
+          res.statusCode = 500;
+          res.end(JSON.stringify({ error: 'Failed to list photos' }));
+        });
+      return;
+    }
+
+    // POST /api/reset - 清空相册照片（具名相册连同目录一起删除）
+    if (req.method === 'POST' && url === apiReset) {
+        try {
+            if (fs.existsSync(album.dir)) {
+                const entries = fs.readdirSync(album.dir, { withFileTypes: true });
+                for (const entry of entries) {
+                    // 只删除文件，保留 .gitkeep 与其它相册的子目录
+                    if (entry.isFile() && entry.name !== '.gitkeep') {
+                         fs.unlinkSync(path.join(album.dir, entry.name));
+                         if (isPhotoFile(entry.name)) removeVariants(album.relDir, entry.name);
                     }
                 }
-                res.setHeader('Content-Type', 'application/json');
-                res.end(JSON.stringify({ success: true }));
-            } catch (err) {
-                console.error('Reset error:', err);
-                res.statusCode = 500;
-                res.end(JSON.stringify({ error: 'Reset failed' }));
+                if (album.name) {
+                    fs.rmSync(album.dir, { recursive: true, force: true });
+                    fs.rmSync(path.resolve(PUBLIC_DIR, VARIANT_DIR, album.relDir), { recursive: true, force: true });
+                }
             }
-            return;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ success: true }));
+        } catch (err) {
+            console.error('Reset error:', err);
+            res.statusCode = 500;
+            res.end(JSON.stringify({ error: 'Reset failed' }));
         }
+        return;
+    }
 
-        // POST /api/upload - 上传照片
-        if (req.method === 'POST' && url === apiUpload) {
-           const uploadMiddleware = upload.array('photos');
-           uploadMiddleware(req as any, res as any, (err) => {
-             if (err) {
-               console.error('Upload error:', err);
-               res.statusCode = 500;
-               res.end(JSON.stringify({ error: 'Upload failed' }));
-               return;
-             }
-             res.setHeader('Content-Type', 'application/json');
-             res.end(JSON.stringify({ success: true, count: (req as any).files?.length }));
-           });
+    // POST /api/upload - 上传照片
+    if (req.method === 'POST' && url === apiUpload) {
+       const uploadMiddleware = upload.array('photos');
+       uploadMiddleware(req as any, res as any, (err) => {
+         res.setHeader('Content-Type', 'application/json');
+         if (err) {
+           console.error('Upload error:', err);
+           // multer 的请求级错误（文件过多、字段名不对等）属于客户端问题
+           const isMulterError = err instanceof multer.MulterError;
+           res.statusCode = isMulterError ? 400 : 500;
+           res.end(JSON.stringify({ error: isMulterError ? err.message : 'Upload failed', code: isMulterError ? err.code : 'INTERNAL' }));
            return;
-        }
+         }
+         const files: StagedFile[] = (req as any).files || [];
+         // 上传后立即生成贴图与大图版本，首次展示时无需等待
+         processUploads(album, files)
+           .then(results => {
+             const photos = results.flatMap(r => (r.status === 'accepted' ? [r.photo] : []));
+             res.end(JSON.stringify({ success: true, count: photos.length, photos, results, maxFileSize }));
+           })
+           .catch(uploadErr => {
+             console.error('Upload error:', uploadErr);
+             res.statusCode = 500;
+             res.end(JSON.stringify({ error: 'Upload failed', code: 'INTERNAL' }));
+           });
+       });
+       return;
+    }
 
-        // DELETE /api/photos - 删除单个照片
-        if (req.method === 'DELETE' && url === apiPhotos) {
-             // 解析 query 参数
-             // req.url 可能是 /christmas-tree-with-photos/api/photos?filename=xxx
-             const fullUrl = 'http://localhost' + req.url;
-             const urlObj = new URL(fullUrl);
-             const filename = urlObj.searchParams.get('filename');
-             
-             if (!filename) {
-                 res.statusCode = 400;
-                 res.setHeader('Content-Type', 'application/json');
-                 res.end(JSON.stringify({ error: 'Filename is required' }));
-                 return;
-             }
+    // PUT /api/photos/meta - 保存单张照片的标题、日期与留言
+    if (req.method === 'PUT' && url === apiPhotoMeta) {
+       readJsonBody(req)
+         .then(body => {
+           const src = typeof body?.src === 'string' ? body.src : '';
+           const photoPath = parseAlbumPhotoPath(album, src);
+           if (!photoPath) {
+             res.statusCode = 400;
+             res.setHeader('Content-Type', 'application/json');
+             res.end(JSON.stringify({ error: 'Invalid photo path' }));
+             return;
+           }
+           if (!fs.existsSync(path.resolve(PUBLIC_DIR, photoPath.relDir, photoPath.file))) {
+             res.statusCode = 404;
+             res.setHeader('Content-Type', 'application/json');
+             res.end(JSON.stringify({ error: 'File not found' }));
+             return;
+           }
 
-             // 安全检查：防止目录遍历
-             if (filename.includes('..') || filename.includes('/') || filename.includes('\\')) {
-                 res.statusCode = 400;
-                 res.setHeader('Content-Type', 'application/json');
-                 res.end(JSON.stringify({ error: 'Invalid filename' }));
-                 return;
-             }
+           const meta = normalizeMeta(body);
+           const metaMap = readMetaFile(album);
+           if (isEmptyMeta(meta)) {
+             delete metaMap[src];
+           } else {
+             metaMap[src] = meta;
+           }
+           writeMetaFile(album, metaMap);
+           res.setHeader('Content-Type', 'application/json');
+           res.end(JSON.stringify({ success: true, meta }));
+         })
+         .catch(err => {
+           console.error('Meta update error:', err);
+           res.statusCode = 400;
+           res.setHeader('Content-Type', 'application/json');
+           res.end(JSON.stringify({ error: 'Invalid request body' }));
+         });
+       return;
+    }
+
+    // PUT /api/photos/order - 保存手动排序
+    if (req.method === 'PUT' && url === apiPhotoOrder) {
+       readJsonBody(req)
+         .then(body => {
+           const order = Array.isArray(body?.order) ? body.order : null;
+           if (!order || !order.every((src: unknown) => typeof src === 'string' && parseAlbumPhotoPath(album, src))) {
+             res.statusCode = 400;
+             res.setHeader('Content-Type', 'application/json');
+             res.end(JSON.stringify({ error: 'Invalid order' }));
+             return;
+           }
+           writeSidecar(album.orderFile, Array.from(new Set<string>(order)));
+           res.setHeader('Content-Type', 'application/json');
+           res.end(JSON.stringify({ success: true }));
+         })
+         .catch(err => {
+           console.error('Order update error:', err);
+           res.statusCode = 400;
+           res.setHeader('Content-Type', 'application/json');
+           res.end(JSON.stringify({ error: 'Invalid request body' }));
+         });
+       return;
+    }
 
-             const userDir = path.resolve(__dirname, 'public/photos');
-             const filePath = path.join(userDir, filename);
-
-             try {
-                 if (fs.existsSync(filePath)) {
-                     fs.unlinkSync(filePath);
-                     res.setHeader('Content-Type', 'application/json');
-                     res.end(JSON.stringify({ success: true }));
-                 } else {
-                     // 尝试在 backup 中找？不，只允许删除用户上传的
-                     res.statusCode = 404;
-                     res.setHeader('Content-Type', 'application/json');
-                     res.end(JSON.stringify({ error: 'File not found or cannot delete backup photos' }));
+    // DELETE /api/photos - 删除单个照片
+    if (req.method === 'DELETE' && url === apiPhotos) {
+         // 解析 query 参数
+         // req.url 可能是 /christmas-tree-with-photos/api/photos?filename=xxx
+         const fullUrl = 'http://localhost' + req.url;
+         const urlObj = new URL(fullUrl);
+         const filename = urlObj.searchParams.get('filename');
+         
+         if (!filename) {
+             res.statusCode = 400;
+             res.setHeader('Content-Type', 'application/json');
+             res.end(JSON.stringify({ error: 'Filename is required' }));
+             return;
+         }
+
+         // 安全检查：防止目录遍历，且只允许删除图片（不能删除说明/排序等旁路文件）
+         if (filename.includes('..') || filename.includes('/') || filename.includes('\\') || !isPhotoFile(filename)) {
+             res.statusCode = 400;
+             res.setHeader('Content-Type', 'application/json');
+             res.end(JSON.stringify({ error: 'Invalid filename' }));
+             return;
+         }
+
+         const filePath = path.join(album.dir, filename);
+         const src = `${album.relDir}/${filename}`;
+
+         try {
+             if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+                 fs.unlinkSync(filePath);
+                 removeVariants(album.relDir, filename);
+                 const metaMap = readMetaFile(album);
+                 if (metaMap[src]) {
+                     delete metaMap[src];
+                     writeMetaFile(album, metaMap);
                  }
-             } catch (err) {
-                 console.error('Delete error:', err);
-                 res.statusCode = 500;
                  res.setHeader('Content-Type', 'application/json');
-                 res.end(JSON.stringify({ error: 'Delete failed' }));
+                 res.end(JSON.stringify({ success: true }));
+             } else {
+                 // 尝试在 backup 中找？不，只允许删除用户上传的
+                 res.statusCode = 404;
+                 res.setHeader('Content-Type', 'application/json');
+                 res.end(JSON.stringify({ error: 'File not found or cannot delete backup photos' }));
              }
-             return;
-        }
+         } catch (err) {
+             console.error('Delete error:', err);
+             res.statusCode = 500;
+             res.setHeader('Content-Type', 'application/json');
+             res.end(JSON.stringify({ error: 'Delete failed' }));
+         }
+         return;
+    }
 
-        next();
-      });
+    next();
+  };
+};
+
+export default function photoServer(options: PhotoServerOptions = {}): Plugin {
+  let isBuild = false;
+  let manifest: PhotoManifest | null = null;
+
+  return {
+    name: 'vite-plugin-photo-server',
+    configResolved(config) {
+      isBuild = config.command === 'build';
+    },
+    // 构建时先生成缩略图（随 public 目录一起复制），再把清单写入产物，静态部署无需照片接口
+    async buildStart() {
+      if (!isBuild) return;
+      manifest = await buildPhotoManifest();
+      const albumCount = Object.keys(manifest.albums).length;
+      console.log(`[PhotoServer] ${PHOTO_MANIFEST_FILE}: ${manifest.defaults.length} backup photos, ${albumCount} album(s)`);
+    },
+    generateBundle() {
+      if (!manifest) return;
+      this.emitFile({ type: 'asset', fileName: PHOTO_MANIFEST_FILE, source: JSON.stringify(manifest) });
+    },
+    configureServer(server) {
+      server.middlewares.use(createPhotoApiMiddleware({ ...options, base: server.config.base }));
+    },
+    // vite preview 同样注册照片接口，构建产物也能上传
+    configurePreviewServer(server) {
+      server.middlewares.use(createPhotoApiMiddleware({ ...options, base: server.config.base, servePhotoFiles: true }));
     }
   };
 }
+
+export type StandaloneServerOptions = PhotoServerOptions & {
+  // 构建产物目录，默认项目下的 dist/
+  distDir?: string;
+  // 与构建时的 base 一致，默认生产环境的 /christmas-tree-with-photos/
+  base?: string;
+};
+
+// 独立 Node 服务器：托管 dist/ 并提供完整的照片接口，适合放在家里的小主机上长期运行
+export const createPhotoServer = (options: StandaloneServerOptions = {}) => {
+  const distDir = path.resolve(options.distDir || path.resolve(__dirname, 'dist'));
+  let base = options.base || '/christmas-tree-with-photos/';
+  if (!base.endsWith('/')) base += '/';
+
+  const api = createPhotoApiMiddleware({ ...options, base, servePhotoFiles: true });
+  const indexFile = path.join(distDir, 'index.html');
+
+  return http.createServer((req, res) => {
+    api(req, res, () => {
+      const url = decodeRequestPath(req.url);
+      if (url === null) {
+        sendBadRequest(res);
+        return;
+      }
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+      if (!url.startsWith(base)) {
+        res.statusCode = 302;
+        res.setHeader('Location', base);
+        res.end();
+        return;
+      }
+
+      const filePath = resolveInside(distDir, url.slice(base.length));
+      // 带哈希的构建产物可以长期缓存
+      const cacheControl = url.startsWith(`${base}assets/`) ? 'public, max-age=31536000, immutable' : 'no-cache';
+      if (filePath && sendFile(res, filePath, cacheControl)) return;
+      if (sendFile(res, indexFile)) return;
+
+      res.statusCode = 404;
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.end('Not found. Run `npm run build` first.');
+    });
+  });
+};
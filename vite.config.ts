@@ -1,6 +1,7 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import photoServer from './vite-plugin-photo-server'
+import mediapipeAssets from './vite-plugin-mediapipe-assets'
 
 // https://vite.dev/config/
 export default defineConfig(({ command, mode }) => {
@@ -8,7 +9,7 @@ export default defineConfig(({ command, mode }) => {
   const base = isDev ? '/' : '/christmas-tree-with-photos/'
 
   return {
-    plugins: [react(), photoServer()],
+    plugins: [react(), photoServer(), mediapipeAssets()],
     base,
     server: {
       open: base